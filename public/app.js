@@ -1,6 +1,7 @@
 /**
  * Client-side JavaScript for Dockhand Dashboard
  * Handles filter interactions with client-side filtering
+ * and live updates pushed by the server (Server-Sent Events)
  */
 
 (function () {
@@ -9,6 +10,9 @@
   // Get filter elements
   const searchInput = document.getElementById('search');
   const envFilter = document.getElementById('env-filter');
+  const unhealthyFilter = document.getElementById('unhealthy-filter');
+  const stoppedFilter = document.getElementById('stopped-filter');
+  const stoppedToggle = document.getElementById('stopped-toggle');
   const refreshBtn = document.getElementById('refresh');
   const resetBtn = document.getElementById('reset-filters');
 
@@ -43,8 +47,8 @@
   /**
    * Apply dynamic colors to environment ribbons
    */
-  function applyEnvColors() {
-    document.querySelectorAll('.ribbon-env').forEach(ribbon => {
+  function applyEnvColors(root = document) {
+    root.querySelectorAll('.ribbon-env').forEach(ribbon => {
       const envName = ribbon.dataset.envName;
       if (envName) {
         const color = getEnvColor(envName);
@@ -60,6 +64,8 @@
     const params = new URLSearchParams();
     if (filters.search) params.set('search', filters.search);
     if (filters.env) params.set('env', filters.env);
+    if (filters.unhealthy) params.set('unhealthy', '1');
+    if (filters.hideStopped) params.set('stopped', '0');
     
     const newUrl = params.toString() ? `/?${params.toString()}` : '/';
     window.history.pushState({}, '', newUrl);
@@ -84,10 +90,13 @@
 
   /**
    * Apply filters by toggling card visibility (client-side)
+   * Pass { updateUrl: false } when re-applying filters without user interaction
    */
-  function applyFiltersClientSide() {
+  function applyFiltersClientSide({ updateUrl = true } = {}) {
     const search = searchInput ? searchInput.value.trim().toLowerCase() : '';
     const env = envFilter ? envFilter.value : '';
+    const unhealthy = unhealthyFilter ? unhealthyFilter.checked : false;
+    const hideStopped = stoppedFilter ? !stoppedFilter.checked : false;
     
     const cards = document.querySelectorAll('.card');
     const emptyState = document.querySelector('.empty-state');
@@ -95,8 +104,9 @@
     
     cards.forEach(card => {
       const cardEnv = card.dataset.env;
+      // Search name, bookmark description and tags (data-search), fall back to the name
       const cardNameElement = card.querySelector('.container-name');
-      const cardName = cardNameElement ? cardNameElement.textContent.toLowerCase() : '';
+      const cardName = (card.dataset.search || (cardNameElement ? cardNameElement.textContent : '')).toLowerCase();
       
       // Determine if card should be visible
       let shouldShow = true;
@@ -108,6 +118,14 @@
       if (env && cardEnv !== env) {
         shouldShow = false;
       }
+
+      if (unhealthy && card.dataset.health !== 'unhealthy') {
+        shouldShow = false;
+      }
+
+      if (hideStopped && card.classList.contains('card-stopped')) {
+        shouldShow = false;
+      }
       
       // Toggle visibility class
       if (shouldShow) {
@@ -130,7 +148,9 @@
     }
     
     // Update URL without reload
-    updateUrlWithoutReload({ search, env });
+    if (updateUrl) {
+      updateUrlWithoutReload({ search, env, unhealthy, hideStopped });
+    }
     
     // Update badge states
     updateBadgeStates();
@@ -148,6 +168,8 @@
     // Set filter values from URL
     if (searchInput) searchInput.value = urlParams.get('search') || '';
     if (envFilter) envFilter.value = urlParams.get('env') || '';
+    if (unhealthyFilter) unhealthyFilter.checked = urlParams.get('unhealthy') === '1';
+    if (stoppedFilter) stoppedFilter.checked = urlParams.get('stopped') !== '0';
     
     // Apply filters if any exist
     if (urlParams.toString()) {
@@ -196,6 +218,18 @@
     });
   }
 
+  if (unhealthyFilter) {
+    unhealthyFilter.addEventListener('change', () => {
+      applyFiltersClientSide();
+    });
+  }
+
+  if (stoppedFilter) {
+    stoppedFilter.addEventListener('change', () => {
+      applyFiltersClientSide();
+    });
+  }
+
   if (refreshBtn) {
     refreshBtn.addEventListener('click', () => {
       // Add loading class
@@ -211,6 +245,8 @@
       // Clear all filter inputs
       if (searchInput) searchInput.value = '';
       if (envFilter) envFilter.value = '';
+      if (unhealthyFilter) unhealthyFilter.checked = false;
+      if (stoppedFilter) stoppedFilter.checked = true;
       
       // Apply filters (will show all)
       applyFiltersClientSide();
@@ -225,7 +261,9 @@
 
     const hasActiveFilters =
       (searchInput && searchInput.value.trim()) ||
-      (envFilter && envFilter.value);
+      (envFilter && envFilter.value) ||
+      (unhealthyFilter && unhealthyFilter.checked) ||
+      (stoppedFilter && !stoppedFilter.checked);
 
     resetBtn.disabled = !hasActiveFilters;
   }
@@ -233,9 +271,9 @@
   /**
    * Handle ribbon clicks for toggling filters
    */
-  function initBadgeFilters() {
+  function initBadgeFilters(root = document) {
     // Handle only ribbons (not stack labels)
-    const filterElements = document.querySelectorAll('.ribbon[data-filter-type]');
+    const filterElements = root.querySelectorAll('.ribbon[data-filter-type]');
     
     filterElements.forEach(element => {
       element.addEventListener('click', (e) => {
@@ -260,6 +298,141 @@
     });
   }
 
+  /**
+   * Create a group section, inserted in sorted position ("ungrouped" last)
+   */
+  function createGroupSection(groupName) {
+    const section = document.createElement('div');
+    section.className = 'container-group';
+    section.dataset.groupName = groupName;
+
+    const header = document.createElement('h2');
+    header.className = 'group-header';
+    header.textContent = groupName;
+
+    const grid = document.createElement('div');
+    grid.className = 'container-grid';
+
+    section.append(header, grid);
+
+    const main = document.querySelector('main');
+    const next = Array.from(main.querySelectorAll('.container-group')).find(existing => {
+      const name = existing.dataset.groupName;
+      if (groupName === 'ungrouped') return false;
+      if (name === 'ungrouped') return true;
+      return name.localeCompare(groupName) > 0;
+    });
+    main.insertBefore(section, next || document.querySelector('.empty-state'));
+
+    return section;
+  }
+
+  /**
+   * Insert a rendered card into its group, sorted by display name
+   */
+  function insertCard(card) {
+    const groupName = card.group;
+    const section =
+      Array.from(document.querySelectorAll('.container-group')).find(g => g.dataset.groupName === groupName) ||
+      createGroupSection(groupName);
+    const grid = section.querySelector('.container-grid');
+
+    const template = document.createElement('template');
+    template.innerHTML = card.html.trim();
+    const element = template.content.firstElementChild;
+
+    const next = Array.from(grid.querySelectorAll('.card')).find(existing => {
+      const name = existing.querySelector('.container-name').textContent.trim();
+      return name.localeCompare(card.displayName, undefined, { sensitivity: 'base' }) > 0;
+    });
+    grid.insertBefore(element, next || null);
+
+    applyEnvColors(element);
+    initBadgeFilters(element);
+  }
+
+  /**
+   * Find a card element by container ID
+   */
+  function findCard(id) {
+    return Array.from(document.querySelectorAll('.card')).find(card => card.dataset.id === id);
+  }
+
+  /**
+   * Add an environment to the filter dropdown if it is not listed yet
+   */
+  function ensureEnvOption(envName) {
+    if (!envFilter || Array.from(envFilter.options).some(option => option.value === envName)) {
+      return;
+    }
+    const option = document.createElement('option');
+    option.value = envName;
+    option.textContent = envName;
+    envFilter.appendChild(option);
+  }
+
+  /**
+   * Patch the dashboard with a live update from the server
+   */
+  function applyLiveUpdate(update) {
+    update.removed.forEach(id => {
+      const card = findCard(id);
+      if (card) card.remove();
+    });
+
+    // Changed cards may have moved to another group, so re-insert them
+    update.changed.concat(update.added).forEach(card => {
+      const existing = findCard(card.id);
+      if (existing) existing.remove();
+      insertCard(card);
+    });
+
+    // Drop groups that became empty
+    document.querySelectorAll('.container-group').forEach(group => {
+      if (!group.querySelector('.card')) group.remove();
+    });
+
+    document.querySelectorAll('.card').forEach(card => ensureEnvOption(card.dataset.env));
+
+    // Only offer the stopped toggle when there is something to toggle
+    if (stoppedToggle) {
+      stoppedToggle.hidden = !document.querySelector('.card-stopped');
+    }
+
+    const lastUpdate = document.querySelector('.last-update-time');
+    if (lastUpdate) lastUpdate.textContent = update.lastUpdate;
+
+    const count = document.querySelector('.container-count');
+    if (count) count.textContent = `(${update.count} container${update.count !== 1 ? 's' : ''})`;
+
+    const warning = document.getElementById('update-warning');
+    if (warning) {
+      warning.hidden = !update.error;
+      warning.querySelector('.warning-message').textContent = update.error || '';
+    }
+
+    const banners = document.getElementById('environment-banners');
+    if (banners) banners.innerHTML = update.banners;
+
+    applyFiltersClientSide({ updateUrl: false });
+  }
+
+  /**
+   * Subscribe to live updates (EventSource reconnects automatically)
+   */
+  function initLiveUpdates() {
+    if (!window.EventSource) return;
+
+    const events = new EventSource('/api/events');
+    events.addEventListener('update', (e) => {
+      try {
+        applyLiveUpdate(JSON.parse(e.data));
+      } catch (error) {
+        console.error('Failed to apply live update:', error);
+      }
+    });
+  }
+
   // Apply environment colors
   applyEnvColors();
 
@@ -293,4 +466,7 @@
 
   // Apply initial filters on page load
   applyInitialFilters();
+
+  // Keep the dashboard current without reloading
+  initLiveUpdates();
 })();
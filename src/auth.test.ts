@@ -0,0 +1,180 @@
+/**
+ * Unit tests for dashboard authentication and visibility rules
+ * Run with: bun test
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { DashboardAuth, parseBasicAuth, getViewer, canSee, filterCacheData, filterDiff } from './auth';
+import type { AuthConfig, CacheData, ProcessedContainer, VisibilityRule } from './types';
+
+function makeCard(id: string, environment: string, group: string): ProcessedContainer {
+  return {
+    id,
+    displayName: id,
+    group,
+    environment: { id: environment === 'home' ? 1 : 2, name: environment },
+  } as ProcessedContainer;
+}
+
+function basic(username: string, password: string): Headers {
+  return new Headers({ Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` });
+}
+
+const rules: VisibilityRule[] = [
+  { userGroups: ['admins'] },
+  { userGroups: ['family'], environments: ['home'], groups: ['Media'] },
+  { users: ['carol'], environments: ['lab'] },
+];
+
+const authConfig: AuthConfig = {
+  mode: 'basic',
+  users: [
+    { username: 'alice', password: 'wonderland', groups: ['family'] },
+    { username: 'root', password: 'toor', groups: ['admins'] },
+  ],
+  userHeader: 'Remote-User',
+  groupsHeader: 'Remote-Groups',
+  visibility: rules,
+};
+
+describe('parseBasicAuth', () => {
+  test('decodes credentials', () => {
+    expect(parseBasicAuth(basic('alice', 'pass:word').get('authorization'))).toEqual({
+      username: 'alice',
+      password: 'pass:word',
+    });
+  });
+
+  test('rejects other schemes and malformed values', () => {
+    expect(parseBasicAuth(null)).toBeNull();
+    expect(parseBasicAuth('Bearer abc')).toBeNull();
+    expect(parseBasicAuth(`Basic ${Buffer.from('no-colon').toString('base64')}`)).toBeNull();
+  });
+});
+
+describe('visibility', () => {
+  const media = makeCard('plex', 'home', 'Media');
+  const tools = makeCard('gitea', 'home', 'Tools');
+  const lab = makeCard('grafana', 'lab', 'Monitoring');
+
+  test('users without rules see everything', () => {
+    const viewer = getViewer({ username: 'alice', groups: [] }, []);
+    expect(viewer.unrestricted).toBe(true);
+  });
+
+  test('a rule without environments and groups grants everything', () => {
+    const viewer = getViewer({ username: 'root', groups: ['admins'] }, rules);
+    expect(viewer.unrestricted).toBe(true);
+    expect(canSee(viewer, lab)).toBe(true);
+  });
+
+  test('rules match users by name or group', () => {
+    const family = getViewer({ username: 'alice', groups: ['family'] }, rules);
+    expect(family.unrestricted).toBe(false);
+    expect([media, tools, lab].filter(card => canSee(family, card))).toEqual([media]);
+
+    const carol = getViewer({ username: 'carol', groups: [] }, rules);
+    expect([media, tools, lab].filter(card => canSee(carol, card))).toEqual([lab]);
+  });
+
+  test('users without a matching rule see nothing', () => {
+    const viewer = getViewer({ username: 'mallory', groups: ['guests'] }, rules);
+    expect([media, tools, lab].some(card => canSee(viewer, card))).toBe(false);
+  });
+
+  test('filters cache data, environments, banners and certificate warnings', () => {
+    const data: CacheData = {
+      environments: [
+        { id: 1, name: 'home', type: 'local', publicIp: '' },
+        { id: 2, name: 'lab', type: 'local', publicIp: '' },
+      ],
+      containers: [media, tools, lab],
+      environmentStatus: [{ id: 2, name: 'lab', status: 'stale', error: 'timeout' }],
+      certificateWarnings: [
+        { id: 1, name: 'home', domains: ['*.home.example.com'], expiresOn: new Date(), daysLeft: 3, containers: ['plex', 'gitea'] },
+        { id: 2, name: 'lab', domains: ['*.lab.example.com'], expiresOn: new Date(), daysLeft: 3, containers: ['grafana'] },
+      ],
+      lastUpdate: new Date(),
+    };
+
+    const filtered = filterCacheData(data, getViewer({ username: 'alice', groups: ['family'] }, rules));
+    expect(filtered.containers).toEqual([media]);
+    expect(filtered.environments.map(env => env.name)).toEqual(['home']);
+    expect(filtered.environmentStatus).toEqual([]);
+    expect(filtered.certificateWarnings.map(warning => [warning.name, warning.containers])).toEqual([['home', ['plex']]]);
+  });
+
+  test('live updates remove cards that are no longer visible', () => {
+    const viewer = getViewer({ username: 'alice', groups: ['family'] }, rules);
+    const movedAway = makeCard('plex', 'home', 'Tools');
+
+    const diff = filterDiff({ added: [media, lab], changed: [movedAway], removed: ['old'] }, viewer);
+    expect(diff).toEqual({ added: [media], changed: [], removed: ['old', 'plex'] });
+  });
+});
+
+describe('DashboardAuth', () => {
+  test('allows everyone without authentication', async () => {
+    const auth = new DashboardAuth({ ...authConfig, mode: 'none' });
+    const result = await auth.authenticate(new Headers(), '10.0.0.1', '10.0.0.1');
+
+    expect(auth.enabled).toBe(false);
+    expect(result).toEqual({ ok: true, viewer: { user: null, unrestricted: true, rules: [] } });
+  });
+
+  test('basic auth checks local users', async () => {
+    const auth = new DashboardAuth(authConfig);
+
+    const result = await auth.authenticate(basic('alice', 'wonderland'), '10.0.0.1', '10.0.0.1');
+    expect(result.ok && result.viewer.user).toEqual({ username: 'alice', groups: ['family'] });
+
+    expect(await auth.authenticate(new Headers(), '10.0.0.1', '10.0.0.1')).toEqual({
+      ok: false,
+      reason: 'authentication required',
+      challenge: true,
+    });
+    expect((await auth.authenticate(basic('alice', 'wrong'), '10.0.0.1', '10.0.0.1')).ok).toBe(false);
+    expect((await auth.authenticate(basic('nobody', 'wonderland'), '10.0.0.1', '10.0.0.1')).ok).toBe(false);
+  });
+
+  test('basic auth verifies password hashes', async () => {
+    const hash = await Bun.password.hash('s3cret', { algorithm: 'bcrypt', cost: 4 });
+    const auth = new DashboardAuth({ ...authConfig, users: [{ username: 'bob', password: hash }] });
+
+    expect((await auth.authenticate(basic('bob', 's3cret'), '10.0.0.1', '10.0.0.1')).ok).toBe(true);
+    expect((await auth.authenticate(basic('bob', 's3cret'), '10.0.0.1', '10.0.0.1')).ok).toBe(true); // Remembered
+    expect((await auth.authenticate(basic('bob', 'wrong'), '10.0.0.1', '10.0.0.1')).ok).toBe(false);
+  });
+
+  test('forward auth reads user and groups from proxy headers', async () => {
+    const auth = new DashboardAuth({ ...authConfig, mode: 'forward' }, ['172.18.0.0/16']);
+
+    const result = await auth.authenticate(
+      new Headers({ 'Remote-User': 'dave', 'Remote-Groups': 'family, admins' }),
+      '10.0.0.1',
+      '172.18.0.2'
+    );
+    expect(result.ok && result.viewer.user).toEqual({ username: 'dave', groups: ['family', 'admins'] });
+    expect(result.ok && result.viewer.unrestricted).toBe(true);
+
+    expect(await auth.authenticate(new Headers(), '10.0.0.1', '172.18.0.2')).toEqual({
+      ok: false,
+      reason: 'missing Remote-User header',
+      challenge: false,
+    });
+  });
+
+  test('forward auth ignores proxy headers from untrusted peers', async () => {
+    const auth = new DashboardAuth({ ...authConfig, mode: 'forward' }, ['172.18.0.0/16', 'fd00::1']);
+    const headers = new Headers({ 'Remote-User': 'dave', 'Remote-Groups': 'admins' });
+
+    expect(await auth.authenticate(headers, '10.0.0.1', '10.0.0.1')).toEqual({
+      ok: false,
+      reason: 'not sent through a trusted proxy',
+      challenge: false,
+    });
+    expect((await auth.authenticate(headers, '10.0.0.1', 'fd00::2')).ok).toBe(false);
+    expect((await auth.authenticate(headers, '10.0.0.1', 'fd00::1')).ok).toBe(true);
+    expect((await auth.authenticate(headers, '10.0.0.1', '::ffff:172.18.5.9')).ok).toBe(true);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Dashboard Auth
+ * Optional login for the dashboard and API (basic auth with local users, or user and group
+ * headers set by a forward-auth proxy) and visibility rules that limit which environments
+ * and groups a user sees
+ */
+
+import { createHash } from 'node:crypto';
+import type { AuthConfig, AuthUser, AuthUserConfig, CacheData, ContainerDiff, ProcessedContainer, VisibilityRule } from './types';
+import { safeCompare } from './webhook';
+import { isIpInRanges } from './utils';
+import { logger } from './logger';
+
+// Passwords in these formats are verified with Bun.password (bcrypt, argon2)
+const PASSWORD_HASH_PATTERN = /^\$(argon2id|argon2i|argon2d|2a|2b|2y)\$/;
+
+/**
+ * Who is looking at the dashboard and what they may see
+ */
+export interface Viewer {
+  user: AuthUser | null;         // null without authentication
+  unrestricted: boolean;         // Sees every environment and group (required for admin endpoints)
+  rules: VisibilityRule[];       // Rules that apply to the user
+}
+
+export type AuthResult =
+  | { ok: true; viewer: Viewer }
+  | { ok: false; reason: string; challenge: boolean }; // challenge: ask the browser for credentials
+
+const ANONYMOUS: Viewer = { user: null, unrestricted: true, rules: [] };
+
+/**
+ * Parse an "Authorization: Basic ..." header
+ */
+export function parseBasicAuth(header: string | null): { username: string; password: string } | null {
+  const match = header?.match(/^Basic\s+([A-Za-z0-9+/=]+)\s*$/i);
+  if (!match) {
+    return null;
+  }
+
+  const decoded = Buffer.from(match[1], 'base64').toString('utf-8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) {
+    return null;
+  }
+  return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+/**
+ * Resolve the visibility rules that apply to a user
+ * Without rules every user sees everything
+ */
+export function getViewer(user: AuthUser, rules: VisibilityRule[]): Viewer {
+  if (rules.length === 0) {
+    return { user, unrestricted: true, rules: [] };
+  }
+
+  const applicable = rules.filter(rule => {
+    if (!rule.users && !rule.userGroups) {
+      return true;
+    }
+    return !!rule.users?.includes(user.username) || !!rule.userGroups?.some(group => user.groups.includes(group));
+  });
+
+  return {
+    user,
+    unrestricted: applicable.some(rule => !rule.environments && !rule.groups),
+    rules: applicable,
+  };
+}
+
+/**
+ * Check whether a container (or bookmark) is visible to the viewer
+ */
+export function canSee(viewer: Viewer, container: ProcessedContainer): boolean {
+  return viewer.unrestricted || viewer.rules.some(rule =>
+    (!rule.environments || rule.environments.includes(container.environment.name)) &&
+    (!rule.groups || rule.groups.includes(container.group))
+  );
+}
+
+/**
+ * Check whether an environment (its name, banners and filter entry) is visible to the viewer
+ */
+function canSeeEnvironment(viewer: Viewer, environmentName: string): boolean {
+  return viewer.unrestricted || viewer.rules.some(rule => !rule.environments || rule.environments.includes(environmentName));
+}
+
+/**
+ * Cache data limited to what the viewer may see
+ */
+export function filterCacheData(data: CacheData, viewer: Viewer): CacheData {
+  if (viewer.unrestricted) {
+    return data;
+  }
+
+  // Certificate warnings only mention the containers the viewer sees
+  const containers = data.containers.filter(container => canSee(viewer, container));
+  const visibleIds = new Set(containers.map(container => container.id));
+  const certificateWarnings = data.certificateWarnings
+    .map(warning => ({ ...warning, containers: warning.containers.filter(id => visibleIds.has(id)) }))
+    .filter(warning => warning.containers.length > 0);
+
+  return {
+    ...data,
+    environments: data.environments.filter(env => canSeeEnvironment(viewer, env.name)),
+    containers,
+    environmentStatus: data.environmentStatus.filter(env => canSeeEnvironment(viewer, env.name)),
+    certificateWarnings,
+  };
+}
+
+/**
+ * Live update diff limited to what the viewer may see
+ * Changed containers that are no longer visible (e.g. moved to another group) are removed
+ */
+export function filterDiff(diff: ContainerDiff, viewer: Viewer): ContainerDiff {
+  if (viewer.unrestricted) {
+    return diff;
+  }
+
+  return {
+    added: diff.added.filter(container => canSee(viewer, container)),
+    changed: diff.changed.filter(container => canSee(viewer, container)),
+    removed: [...diff.removed, ...diff.changed.filter(container => !canSee(viewer, container)).map(container => container.id)],
+  };
+}
+
+export class DashboardAuth {
+  private config: AuthConfig;
+  private trustedProxies: string[];   // Peers allowed to send forward-auth headers
+  private verifiedPasswords: Map<string, string> = new Map(); // username → sha256 of the password that matched its hash
+
+  constructor(config: AuthConfig, trustedProxies: string[] = []) {
+    this.config = config;
+    this.trustedProxies = trustedProxies;
+  }
+
+  /**
+   * Apply (reloaded) auth settings
+   */
+  applyConfig(config: AuthConfig, trustedProxies: string[] = []): void {
+    this.config = config;
+    this.trustedProxies = trustedProxies;
+    this.verifiedPasswords.clear();
+  }
+
+  get enabled(): boolean {
+    return this.config.mode !== 'none';
+  }
+
+  get mode(): AuthConfig['mode'] {
+    return this.config.mode;
+  }
+
+  /**
+   * Identify the user of a request and resolve what they may see
+   * Failed logins are logged with the client IP
+   * @param peer Address of the direct connection (forward-auth headers are only accepted from trusted proxies)
+   */
+  async authenticate(headers: Headers, ip: string, peer: string): Promise<AuthResult> {
+    switch (this.config.mode) {
+      case 'none':
+        return { ok: true, viewer: ANONYMOUS };
+
+      case 'forward': {
+        // Anyone can set the user headers, only a trusted proxy has checked them
+        if (!isIpInRanges(peer, this.trustedProxies)) {
+          logger.warn(`[Auth] Rejected request from ${ip}: ${peer} is not a trusted proxy`);
+          return { ok: false, reason: 'not sent through a trusted proxy', challenge: false };
+        }
+        const username = headers.get(this.config.userHeader)?.trim();
+        if (!username) {
+          logger.warn(`[Auth] Rejected request from ${ip}: missing ${this.config.userHeader} header`);
+          return { ok: false, reason: `missing ${this.config.userHeader} header`, challenge: false };
+        }
+        const groups = (headers.get(this.config.groupsHeader) ?? '')
+          .split(',')
+          .map(group => group.trim())
+          .filter(group => group.length > 0);
+        return { ok: true, viewer: getViewer({ username, groups }, this.config.visibility) };
+      }
+
+      case 'basic': {
+        const credentials = parseBasicAuth(headers.get('authorization'));
+        if (!credentials) {
+          // Browsers send the first request without credentials, no need to log it
+          return { ok: false, reason: 'authentication required', challenge: true };
+        }
+
+        const user = this.config.users.find(candidate => candidate.username === credentials.username);
+        if (!user || !(await this.checkPassword(user, credentials.password))) {
+          logger.warn(`[Auth] Failed login for "${credentials.username}" from ${ip}`);
+          return { ok: false, reason: 'invalid username or password', challenge: true };
+        }
+        return { ok: true, viewer: getViewer({ username: user.username, groups: user.groups ?? [] }, this.config.visibility) };
+      }
+    }
+  }
+
+  /**
+   * Compare a password with the configured one (plain text or hash)
+   * Basic auth sends the password with every request, so verified hashes are remembered
+   */
+  private async checkPassword(user: AuthUserConfig, password: string): Promise<boolean> {
+    if (!PASSWORD_HASH_PATTERN.test(user.password)) {
+      return safeCompare(password, user.password);
+    }
+
+    const fingerprint = createHash('sha256').update(password).digest('hex');
+    const verified = this.verifiedPasswords.get(user.username);
+    if (verified !== undefined) {
+      return safeCompare(fingerprint, verified);
+    }
+
+    try {
+      if (await Bun.password.verify(password, user.password)) {
+        this.verifiedPasswords.set(user.username, fingerprint);
+        return true;
+      }
+    } catch (error) {
+      logger.error(`[Auth] Cannot verify password hash of "${user.username}":`, error);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for bookmark health checks
+ * Run with: bun test
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { probeHttp, probeTcp, runBookmarkCheck, BookmarkProber } from './bookmark-prober';
+import { getBookmarkId } from './utils';
+import type { BookmarkCheckResult } from './types';
+
+describe('bookmark health checks', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+  let closedPort: number;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const path = new URL(request.url).pathname;
+        if (path === '/redirect') return Response.redirect('/login', 302);
+        if (path === '/broken') return new Response('error', { status: 503 });
+        return new Response('ok');
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+
+    // Find a port nobody listens on
+    const listener = Bun.listen({ hostname: '127.0.0.1', port: 0, socket: { data() {} } });
+    closedPort = listener.port;
+    listener.stop(true);
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('HTTP check is up for 2xx and redirects', async () => {
+    expect(await probeHttp(`${baseUrl}/`)).toMatchObject({ up: true, message: 'HTTP 200' });
+    expect(await probeHttp(`${baseUrl}/redirect`)).toMatchObject({ up: true, message: 'HTTP 302' });
+  });
+
+  test('HTTP check is down for error status and refused connections', async () => {
+    expect(await probeHttp(`${baseUrl}/broken`)).toMatchObject({ up: false, message: 'HTTP 503' });
+    expect((await probeHttp(`http://127.0.0.1:${closedPort}/`)).up).toBe(false);
+  });
+
+  test('TCP check connects to open port', async () => {
+    const result = await probeTcp('127.0.0.1', server.port!);
+    expect(result.up).toBe(true);
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('TCP check is down for closed port', async () => {
+    expect((await probeTcp('127.0.0.1', closedPort)).up).toBe(false);
+  });
+
+  test('check target defaults to bookmark URL', async () => {
+    expect((await runBookmarkCheck({ type: 'tcp' }, baseUrl)).up).toBe(true);
+    expect((await runBookmarkCheck({ type: 'http', target: `${baseUrl}/broken` }, baseUrl)).up).toBe(false);
+  });
+
+  test('prober reports results of checked bookmarks only', async () => {
+    const results = new Map<string, BookmarkCheckResult>();
+    const prober = new BookmarkProber((id, result) => results.set(id, result));
+    const checked = { name: 'App', url: baseUrl, check: { type: 'http' as const } };
+    const unchecked = { name: 'Docs', url: `${baseUrl}/broken` };
+
+    prober.start([checked, unchecked], 3600);
+    for (let i = 0; i < 100 && results.size === 0; i++) {
+      await Bun.sleep(20);
+    }
+    prober.stop();
+
+    expect([...results.keys()]).toEqual([getBookmarkId(checked)]);
+    expect(results.get(getBookmarkId(checked))?.up).toBe(true);
+  });
+});
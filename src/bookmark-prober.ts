@@ -0,0 +1,163 @@
+/**
+ * Bookmark Prober
+ * Periodically checks bookmarks with a health check (HTTP status or TCP connect)
+ * and reports up/down results so bookmark cards show health like containers do
+ */
+
+import type { BookmarkConfig, BookmarkCheck, BookmarkCheckResult } from './types';
+import { getBookmarkId, parseTcpTarget } from './utils';
+import { logger } from './logger';
+
+// Give up on a single check after this long
+const CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Check a URL over HTTP
+ * Any status below 400 counts as up, redirects are not followed
+ * Self-signed certificates are accepted (typical for router and NAS UIs)
+ */
+export async function probeHttp(url: string, timeoutMs: number = CHECK_TIMEOUT_MS): Promise<BookmarkCheckResult> {
+  const start = performance.now();
+
+  try {
+    const response = await fetch(url, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+      tls: { rejectUnauthorized: false },
+    });
+    // Only the status code matters
+    await response.body?.cancel();
+
+    return {
+      up: response.status < 400,
+      message: `HTTP ${response.status}`,
+      latencyMs: Math.round(performance.now() - start),
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    return { up: false, message: timedOut ? `No response within ${timeoutMs / 1000}s` : describeError(error) };
+  }
+}
+
+/**
+ * Check that a TCP connection to host:port can be established
+ */
+export async function probeTcp(host: string, port: number, timeoutMs: number = CHECK_TIMEOUT_MS): Promise<BookmarkCheckResult> {
+  const start = performance.now();
+  let timer: Timer | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No connection within ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+  const connect = Bun.connect({ hostname: host, port, socket: { data() {} } });
+
+  try {
+    const socket = await Promise.race([connect, timeout]);
+    socket.end();
+    return { up: true, message: `TCP ${host}:${port} open`, latencyMs: Math.round(performance.now() - start) };
+  } catch (error) {
+    // Close the socket if it connects after the timeout
+    connect.then(socket => socket.end(), () => {});
+    return { up: false, message: describeError(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a bookmark health check against its target (default: the bookmark URL)
+ */
+export async function runBookmarkCheck(check: BookmarkCheck, url: string): Promise<BookmarkCheckResult> {
+  const target = check.target ?? url;
+
+  if (check.type === 'http') {
+    return probeHttp(target);
+  }
+
+  const tcpTarget = parseTcpTarget(target);
+  if (!tcpTarget) {
+    return { up: false, message: `Invalid TCP target "${target}"` };
+  }
+  return probeTcp(tcpTarget.host, tcpTarget.port);
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    const code = (error as { code?: string }).code;
+    return code && !error.message.startsWith(code) ? `${code}: ${error.message}` : error.message;
+  }
+  return String(error);
+}
+
+export class BookmarkProber {
+  private onResult: (bookmarkId: string, result: BookmarkCheckResult) => void;
+  private bookmarks: BookmarkConfig[] = [];
+  private timer: Timer | null = null;
+  private activeRound: BookmarkConfig[] | null = null; // Bookmarks of the round in progress
+
+  /**
+   * @param onResult Called with the result of every check
+   */
+  constructor(onResult: (bookmarkId: string, result: BookmarkCheckResult) => void) {
+    this.onResult = onResult;
+  }
+
+  /**
+   * Start checking all bookmarks that have a health check
+   * Replaces a previous schedule (used on config reload)
+   * @param intervalSeconds Time between check rounds
+   */
+  start(bookmarks: BookmarkConfig[], intervalSeconds: number): void {
+    this.stop();
+    this.bookmarks = bookmarks.filter(bookmark => bookmark.check);
+
+    if (this.bookmarks.length === 0) {
+      return;
+    }
+
+    logger.info(`[Bookmarks] Checking ${this.bookmarks.length} bookmark(s) every ${intervalSeconds}s`);
+    this.probeAll();
+    this.timer = setInterval(() => this.probeAll(), intervalSeconds * 1000);
+  }
+
+  /**
+   * Stop checking bookmarks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.bookmarks = [];
+  }
+
+  /**
+   * Check all bookmarks in parallel
+   * Skips a round if the previous one for the same bookmarks is still running
+   */
+  async probeAll(): Promise<void> {
+    const bookmarks = this.bookmarks;
+    if (this.activeRound === bookmarks) {
+      logger.debug('[Bookmarks] Previous check round still running, skipping');
+      return;
+    }
+
+    this.activeRound = bookmarks;
+
+    try {
+      await Promise.all(bookmarks.map(async bookmark => {
+        const result = await runBookmarkCheck(bookmark.check!, bookmark.url);
+        const latency = result.latencyMs !== undefined ? ` in ${result.latencyMs} ms` : '';
+        logger.debug(`[Bookmarks] ${bookmark.name}: ${result.up ? 'up' : 'down'} (${result.message}${latency})`);
+        // Drop results of bookmarks replaced by a reload during the check
+        if (this.bookmarks === bookmarks) {
+          this.onResult(getBookmarkId(bookmark), result);
+        }
+      }));
+    } finally {
+      if (this.activeRound === bookmarks) {
+        this.activeRound = null;
+      }
+    }
+  }
+}
@@ -0,0 +1,688 @@
+/**
+ * Unit tests for the cache manager
+ * Run with: bun test
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { CacheManager } from './cache';
+import { parseConfig } from './config';
+import type { DockhandClient } from './dockhand-client';
+import type { NpmClient } from './npm-client';
+import type { PeekapingClient } from './peekaping-client';
+import { StateStore } from './state-store';
+import { DEFAULT_PROXY_SETTINGS } from './utils';
+import type { NpmCertificate, NpmCreateCertificateRequest, NpmCreateProxyHostRequest, NpmProxyHost } from './npm-types';
+import type { DockhandContainer, DockhandEnvironment } from './types';
+
+/**
+ * In-memory stand-in for the Dockhand API
+ * Environments listed in `failing` reject their container fetch
+ */
+class FakeDockhand {
+  environments: DockhandEnvironment[] = [
+    { id: 1, name: 'prod', type: 'local', publicIp: '10.0.0.5' },
+    { id: 2, name: 'lab', type: 'local', publicIp: '10.0.0.6' },
+  ];
+  containers: Record<number, DockhandContainer[]> = {
+    1: [makeContainer('web', 8080)],
+    2: [makeContainer('grafana', 3000)],
+  };
+  failing = new Set<number>();
+  unreachable = false;
+  environmentRequests = 0;
+  containerRequests: number[] = []; // Environment IDs of container fetches
+  blocked: Promise<void> | null = null; // Holds fetchEnvironments until resolved
+
+  async fetchEnvironments(): Promise<DockhandEnvironment[]> {
+    this.environmentRequests++;
+    if (this.blocked) await this.blocked;
+    if (this.unreachable) throw new Error('connection refused');
+    return this.environments;
+  }
+
+  async fetchContainers(environmentId: number): Promise<DockhandContainer[]> {
+    this.containerRequests.push(environmentId);
+    if (this.failing.has(environmentId)) throw new Error('Request timed out after 10s');
+    return this.containers[environmentId] ?? [];
+  }
+}
+
+/**
+ * In-memory stand-in for the NPM API
+ * Every write is recorded in `calls` so tests can check what Tavern touched
+ */
+class FakeNpm {
+  proxyHosts: NpmProxyHost[] = [];
+  calls: string[] = [];
+
+  async fetchProxyHosts(): Promise<NpmProxyHost[]> {
+    return this.proxyHosts.map(host => ({ ...host }));
+  }
+
+  async updateProxyHost(id: number, data: Partial<NpmCreateProxyHostRequest>): Promise<NpmProxyHost> {
+    this.calls.push(`update ${id}`);
+    const index = this.proxyHosts.findIndex(host => host.id === id);
+    this.proxyHosts[index] = { ...this.proxyHosts[index], ...data };
+    return { ...this.proxyHosts[index] };
+  }
+
+  async deleteProxyHost(id: number): Promise<boolean> {
+    this.calls.push(`delete ${id}`);
+    this.proxyHosts = this.proxyHosts.filter(host => host.id !== id);
+    return true;
+  }
+
+  async disableProxyHost(id: number): Promise<boolean> {
+    this.calls.push(`disable ${id}`);
+    return true;
+  }
+
+  async enableProxyHost(id: number): Promise<boolean> {
+    this.calls.push(`enable ${id}`);
+    return true;
+  }
+}
+
+/**
+ * In-memory stand-in for the Peekaping API, records monitor writes
+ */
+class FakePeekaping {
+  calls: string[] = [];
+
+  async deleteMonitor(id: string): Promise<void> {
+    this.calls.push(`delete ${id}`);
+  }
+
+  async updateMonitor(id: string, data: { active?: boolean }): Promise<void> {
+    this.calls.push(`${data.active ? 'resume' : 'pause'} ${id}`);
+  }
+}
+
+function makeProxyHost(id: number, domain: string, forwardHost: string, forwardPort: number): NpmProxyHost {
+  return {
+    id,
+    domain_names: [domain],
+    forward_host: forwardHost,
+    forward_port: forwardPort,
+    access_list_id: 2,
+    certificate_id: 1,
+    ssl_forced: true,
+    http2_support: true,
+    meta: {},
+    enabled: true,
+    ...DEFAULT_PROXY_SETTINGS,
+  } as NpmProxyHost;
+}
+
+function makeContainer(name: string, port: number): DockhandContainer {
+  return {
+    id: `${name}-id`,
+    name,
+    image: `${name}:latest`,
+    state: 'running',
+    status: 'Up 1 hour',
+    created: 0,
+    ports: [{ IP: '0.0.0.0', PrivatePort: port, PublicPort: port, Type: 'tcp' }],
+    networks: {},
+    restartCount: 0,
+    mounts: [],
+    labels: {},
+    command: '',
+    systemContainer: null,
+  };
+}
+
+describe('CacheManager', () => {
+  let dockhand: FakeDockhand;
+  let client: DockhandClient;
+  let cache: CacheManager;
+
+  beforeEach(() => {
+    dockhand = new FakeDockhand();
+    client = dockhand as unknown as DockhandClient;
+    cache = new CacheManager(parseConfig(undefined, { DOCKHAND_PASSWORD: 'secret' }));
+  });
+
+  describe('environment failures', () => {
+    test('keeps last known containers of a failing environment as stale', async () => {
+      await cache.refreshImmediate(client);
+      dockhand.failing.add(2);
+      await cache.refreshImmediate(client);
+
+      const data = cache.get();
+      const grafana = data.containers.find(c => c.displayName === 'grafana');
+      expect(grafana?.stale).toBe(true);
+      expect(data.containers.find(c => c.displayName === 'web')?.stale).toBeUndefined();
+
+      const lab = data.environmentStatus.find(env => env.name === 'lab')!;
+      expect(lab.status).toBe('stale');
+      expect(lab.error).toBe('Request timed out after 10s');
+      expect(lab.staleSince).toBeInstanceOf(Date);
+      expect(data.error).toBeUndefined();
+    });
+
+    test('stale since is kept across failed refreshes and cleared on recovery', async () => {
+      await cache.refreshImmediate(client);
+      dockhand.failing.add(2);
+      await cache.refreshImmediate(client);
+      const staleSince = cache.get().environmentStatus.find(env => env.name === 'lab')!.staleSince;
+
+      await Bun.sleep(5);
+      await cache.refreshImmediate(client);
+      expect(cache.get().environmentStatus.find(env => env.name === 'lab')!.staleSince).toBe(staleSince);
+
+      dockhand.failing.clear();
+      await cache.refreshImmediate(client);
+      const lab = cache.get().environmentStatus.find(env => env.name === 'lab')!;
+      expect(lab.status).toBe('ok');
+      expect(lab.staleSince).toBeUndefined();
+      expect(cache.get().containers.find(c => c.displayName === 'grafana')?.stale).toBeUndefined();
+    });
+
+    test('environment that never loaded is offline', async () => {
+      dockhand.failing.add(2);
+      await cache.refreshImmediate(client);
+
+      const data = cache.get();
+      expect(data.environmentStatus.find(env => env.name === 'lab')?.status).toBe('offline');
+      expect(data.containers.map(c => c.displayName)).toEqual(['web']);
+    });
+
+    test('all environments become stale when Dockhand is unreachable', async () => {
+      await cache.refreshImmediate(client);
+      dockhand.unreachable = true;
+      await cache.refreshImmediate(client);
+
+      const data = cache.get();
+      expect(data.error).toBe('connection refused');
+      expect(data.environmentStatus.map(env => env.status)).toEqual(['stale', 'stale']);
+      expect(data.containers.every(c => c.stale)).toBe(true);
+    });
+
+    test('removed environments are forgotten', async () => {
+      await cache.refreshImmediate(client);
+      dockhand.environments = dockhand.environments.filter(env => env.id !== 2);
+      await cache.refreshImmediate(client);
+
+      const data = cache.get();
+      expect(data.environmentStatus.map(env => env.name)).toEqual(['prod']);
+      expect(data.containers.map(c => c.displayName)).toEqual(['web']);
+    });
+  });
+
+  describe('refresh queue', () => {
+    const debounceMs = 20;
+
+    beforeEach(() => {
+      cache['refreshDebounceMs'] = debounceMs;
+    });
+
+    /**
+     * Block Dockhand requests until the returned function is called
+     */
+    function blockDockhand(): () => void {
+      let release = () => {};
+      dockhand.blocked = new Promise(resolve => {
+        release = () => {
+          dockhand.blocked = null;
+          resolve();
+        };
+      });
+      return release;
+    }
+
+    async function waitFor(condition: () => boolean): Promise<void> {
+      for (let i = 0; i < 100 && !condition(); i++) {
+        await Bun.sleep(5);
+      }
+      expect(condition()).toBe(true);
+    }
+
+    test('coalesces requests within the debounce window into one run', async () => {
+      expect(cache.refresh(client)).toEqual({ status: 'scheduled', pendingRequests: 1 });
+      expect(cache.refresh(client)).toEqual({ status: 'coalesced', pendingRequests: 2 });
+      expect(cache.refresh(client)).toEqual({ status: 'coalesced', pendingRequests: 3 });
+
+      await waitFor(() => cache.get().containers.length === 2);
+      await Bun.sleep(debounceMs * 2);
+      expect(dockhand.environmentRequests).toBe(1);
+    });
+
+    test('request during an in-flight refresh triggers exactly one follow-up run', async () => {
+      const release = blockDockhand();
+      cache.refresh(client);
+      await waitFor(() => dockhand.environmentRequests === 1);
+
+      // Container deployed while the first refresh is still running
+      dockhand.containers[1] = [...dockhand.containers[1], makeContainer('api', 9000)];
+      expect(cache.refresh(client).status).toBe('scheduled');
+      await Bun.sleep(debounceMs * 2); // Debounce fires while the first run is in flight
+      expect(cache.refresh(client)).toEqual({ status: 'coalesced', pendingRequests: 2 });
+
+      release();
+      await waitFor(() => cache.get().containers.some(c => c.displayName === 'api'));
+      await Bun.sleep(debounceMs * 2);
+      expect(dockhand.environmentRequests).toBe(2);
+    });
+
+    test('request during an immediate refresh is not lost', async () => {
+      const release = blockDockhand();
+      const initial = cache.refreshImmediate(client);
+      await waitFor(() => dockhand.environmentRequests === 1);
+
+      cache.refresh(client);
+      await Bun.sleep(debounceMs * 2);
+      release();
+      await initial;
+
+      expect(dockhand.environmentRequests).toBe(2);
+    });
+  });
+
+  describe('targeted refresh', () => {
+    beforeEach(async () => {
+      cache['refreshDebounceMs'] = 10;
+      await cache.refreshImmediate(client);
+      dockhand.environmentRequests = 0;
+      dockhand.containerRequests = [];
+    });
+
+    async function runQueuedRefresh(): Promise<void> {
+      await Bun.sleep(20);
+      for (let i = 0; i < 100 && cache['isRefreshing']; i++) {
+        await Bun.sleep(5);
+      }
+    }
+
+    test('only fetches the environment of the event', async () => {
+      dockhand.containers[2] = [makeContainer('grafana', 3000), makeContainer('loki', 3100)];
+      dockhand.containers[1] = [];
+
+      cache.refresh(client, 2);
+      await runQueuedRefresh();
+
+      expect(dockhand.environmentRequests).toBe(0);
+      expect(dockhand.containerRequests).toEqual([2]);
+      expect(cache.get().containers.map(c => c.displayName).sort()).toEqual(['grafana', 'loki', 'web']);
+      expect(cache.getStats().lastRefresh?.targetEnvironmentIds).toEqual([2]);
+    });
+
+    test('merges events of several environments into one run', async () => {
+      cache.refresh(client, 2);
+      cache.refresh(client, 1);
+      cache.refresh(client, 2);
+      await runQueuedRefresh();
+
+      expect(dockhand.environmentRequests).toBe(0);
+      expect(dockhand.containerRequests.sort()).toEqual([1, 2]);
+    });
+
+    test('a full request widens the merged run to all environments', async () => {
+      cache.refresh(client, 2);
+      cache.refresh(client);
+      await runQueuedRefresh();
+
+      expect(dockhand.environmentRequests).toBe(1);
+      expect(cache.getStats().lastRefresh?.targetEnvironmentIds).toBeUndefined();
+    });
+
+    test('falls back to a full refresh for unknown environments', async () => {
+      dockhand.environments.push({ id: 3, name: 'edge', type: 'local', publicIp: '10.0.0.7' });
+      dockhand.containers[3] = [makeContainer('mqtt', 1883)];
+
+      cache.refresh(client, 3);
+      await runQueuedRefresh();
+
+      expect(dockhand.environmentRequests).toBe(1);
+      expect(cache.get().containers.some(c => c.displayName === 'mqtt')).toBe(true);
+    });
+
+    test('failing environment of an event becomes stale, others are untouched', async () => {
+      dockhand.failing.add(2);
+
+      cache.refresh(client, 2);
+      await runQueuedRefresh();
+
+      const status = cache.get().environmentStatus;
+      expect(status.find(env => env.name === 'lab')?.status).toBe('stale');
+      expect(status.find(env => env.name === 'prod')?.status).toBe('ok');
+    });
+  });
+
+  describe('proxy host reconcile', () => {
+    let npm: FakeNpm;
+    let stateStore: StateStore;
+
+    function createCache(reconcile: boolean): CacheManager {
+      return new CacheManager(
+        parseConfig(undefined, {
+          DOCKHAND_PASSWORD: 'secret',
+          NPM_URL: 'http://npm:81',
+          NPM_EMAIL: 'admin@example.com',
+          NPM_PASSWORD: 'pw',
+          NPM_AUTO_CREATE_DOMAIN: 'example.com',
+          NPM_CERTIFICATE_ID: '1',
+          NPM_DEFAULT_ACCESS_LIST_ID: '2',
+          NPM_RECONCILE: String(reconcile),
+        }),
+        { npmClient: npm as unknown as NpmClient, stateStore }
+      );
+    }
+
+    /**
+     * Run auto-creation for the "web" container (10.0.0.5:8080) against the current NPM hosts
+     */
+    async function autoCreate(target: CacheManager): Promise<NpmProxyHost[]> {
+      const hosts = await npm.fetchProxyHosts();
+      const env = dockhand.environments[0];
+      await target['autoCreateProxyHosts']([{ container: dockhand.containers[1][0], env }], hosts);
+      return hosts;
+    }
+
+    function ownHost(): void {
+      stateStore.set({
+        key: '1/web',
+        containerId: 'web-id',
+        containerName: 'web',
+        environmentId: 1,
+        domain: 'web.example.com',
+        proxyHostId: 5,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    beforeEach(() => {
+      npm = new FakeNpm();
+      npm.proxyHosts = [makeProxyHost(5, 'web.example.com', '10.0.0.9', 8080)];
+      stateStore = new StateStore(null);
+    });
+
+    test('never rewrites a mismatched host it did not create', async () => {
+      const hosts = await autoCreate(createCache(true));
+
+      expect(npm.calls).toEqual([]);
+      expect(hosts[0].forward_host).toBe('10.0.0.9');
+    });
+
+    test('leaves a mismatched owned host alone without reconcile', async () => {
+      ownHost();
+      await autoCreate(createCache(false));
+
+      expect(npm.calls).toEqual([]);
+      expect(npm.proxyHosts[0].forward_host).toBe('10.0.0.9');
+    });
+
+    test('updates a mismatched owned host with reconcile and uses the new target', async () => {
+      ownHost();
+      const hosts = await autoCreate(createCache(true));
+
+      expect(npm.calls).toEqual(['update 5']);
+      expect(npm.proxyHosts[0]).toMatchObject({ forward_host: '10.0.0.5', forward_port: 8080 });
+      // URL resolution of this refresh sees the updated host
+      expect(hosts).toHaveLength(1);
+      expect(hosts[0]).toMatchObject({ id: 5, forward_host: '10.0.0.5', forward_port: 8080 });
+    });
+  });
+
+  describe('cleanup of owned resources', () => {
+    let npm: FakeNpm;
+    let peekaping: FakePeekaping;
+    let stateStore: StateStore;
+    const hourAgo = () => new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    function createCache(env: Record<string, string> = {}): CacheManager {
+      return new CacheManager(
+        parseConfig(undefined, {
+          DOCKHAND_PASSWORD: 'secret',
+          NPM_URL: 'http://npm:81',
+          NPM_EMAIL: 'admin@example.com',
+          NPM_PASSWORD: 'pw',
+          CLEANUP_ENABLED: 'true',
+          CLEANUP_GRACE_PERIOD: '600',
+          ...env,
+        }),
+        { npmClient: npm as unknown as NpmClient, peekapingClient: peekaping as unknown as PeekapingClient, stateStore }
+      );
+    }
+
+    /**
+     * Run cleanup with the containers of the fake Dockhand, all environments checked unless given
+     */
+    async function runCleanup(target: CacheManager, checkedEnvironmentIds: number[] = [1, 2]): Promise<void> {
+      const containers = dockhand.environments.flatMap(env =>
+        (dockhand.containers[env.id] ?? []).map(container => ({ container, env }))
+      );
+      await target['cleanupOrphanedResources'](containers, new Set(checkedEnvironmentIds));
+    }
+
+    /**
+     * Owned resources of a container "old" in the prod environment that no longer exists
+     */
+    function ownGoneContainer(missingSince?: string): void {
+      stateStore.set({
+        key: '1/old',
+        containerId: 'old-id',
+        containerName: 'old',
+        environmentId: 1,
+        domain: 'old.example.com',
+        proxyHostId: 7,
+        monitorId: 'm-7',
+        createdAt: hourAgo(),
+        ...(missingSince ? { missingSince } : {}),
+      });
+    }
+
+    beforeEach(() => {
+      npm = new FakeNpm();
+      peekaping = new FakePeekaping();
+      stateStore = new StateStore(null);
+    });
+
+    test('touches nothing during the grace period', async () => {
+      ownGoneContainer();
+      const target = createCache({ CLEANUP_ACTION: 'delete' });
+
+      await runCleanup(target);
+      expect(stateStore.get('1/old')?.missingSince).toBeDefined();
+      await runCleanup(target);
+
+      expect(npm.calls).toEqual([]);
+      expect(peekaping.calls).toEqual([]);
+      expect(target.getCleanupReport()).toEqual([]);
+    });
+
+    test('dry run reports but calls nothing', async () => {
+      ownGoneContainer(hourAgo());
+      const target = createCache({ CLEANUP_ACTION: 'delete', CLEANUP_DRY_RUN: 'true' });
+
+      await runCleanup(target);
+
+      expect(npm.calls).toEqual([]);
+      expect(peekaping.calls).toEqual([]);
+      expect(target.getCleanupReport()).toMatchObject([{ key: '1/old', proxyHostId: 7, monitorId: 'm-7', action: 'would-delete' }]);
+      expect(stateStore.get('1/old')).toBeDefined();
+    });
+
+    test('never removes resources of an environment that was not fetched', async () => {
+      ownGoneContainer(hourAgo());
+      const target = createCache({ CLEANUP_ACTION: 'delete' });
+
+      await runCleanup(target, [2]);
+
+      expect(npm.calls).toEqual([]);
+      expect(peekaping.calls).toEqual([]);
+      expect(stateStore.get('1/old')).toBeDefined();
+    });
+
+    test('delete action removes proxy host and monitor and forgets the entry', async () => {
+      ownGoneContainer(hourAgo());
+      const target = createCache({ CLEANUP_ACTION: 'delete' });
+
+      await runCleanup(target);
+
+      expect(npm.calls).toEqual(['delete 7']);
+      expect(peekaping.calls).toEqual(['delete m-7']);
+      expect(stateStore.get('1/old')).toBeUndefined();
+    });
+
+    test('disable action disables once and keeps the entry', async () => {
+      ownGoneContainer(hourAgo());
+      const target = createCache({ CLEANUP_ACTION: 'disable' });
+
+      await runCleanup(target);
+      await runCleanup(target);
+
+      expect(npm.calls).toEqual(['disable 7']);
+      expect(peekaping.calls).toEqual(['pause m-7']);
+      expect(stateStore.get('1/old')?.disabledAt).toBeDefined();
+    });
+
+    test('returning container re-enables its resources and clears missing since', async () => {
+      ownGoneContainer(hourAgo());
+      const target = createCache({ CLEANUP_ACTION: 'disable' });
+      await runCleanup(target);
+
+      dockhand.containers[1] = [...dockhand.containers[1], makeContainer('old', 9000)];
+      await runCleanup(target);
+
+      expect(npm.calls).toEqual(['disable 7', 'enable 7']);
+      expect(peekaping.calls).toEqual(['pause m-7', 'resume m-7']);
+      const resource = stateStore.get('1/old')!;
+      expect(resource.missingSince).toBeUndefined();
+      expect(resource.disabledAt).toBeUndefined();
+    });
+  });
+
+  describe('certificate requests', () => {
+    let requests: NpmCreateCertificateRequest[];
+    let failing: boolean;
+    let issued: boolean;
+
+    beforeEach(() => {
+      requests = [];
+      failing = false;
+      issued = true;
+      const npm = {
+        async createCertificate(data: NpmCreateCertificateRequest): Promise<NpmCertificate> {
+          requests.push(data);
+          if (failing) throw new Error('NPM POST request failed: 500');
+          return { id: 20 + requests.length, domain_names: data.domain_names, expires_on: '' } as NpmCertificate;
+        },
+        async fetchCertificate(id: number): Promise<NpmCertificate> {
+          return {
+            id,
+            domain_names: requests[id - 21].domain_names,
+            expires_on: issued ? '2027-01-01 00:00:00' : '',
+          } as NpmCertificate;
+        },
+      };
+      cache = new CacheManager(
+        parseConfig(undefined, {
+          DOCKHAND_PASSWORD: 'secret',
+          NPM_URL: 'http://npm:81',
+          NPM_EMAIL: 'admin@example.com',
+          NPM_PASSWORD: 'pw',
+          NPM_REQUEST_CERTIFICATES: 'true',
+          NPM_LETSENCRYPT_EMAIL: 'certs@example.com',
+          NPM_CERTIFICATE_REQUEST_LIMIT: '2',
+        }),
+        { npmClient: npm as unknown as NpmClient }
+      );
+    });
+
+    test('requests a certificate and uses it on a later refresh once issued', async () => {
+      issued = false;
+      expect(await cache['requestCertificate']('app.example.org')).toBeNull();
+      expect(requests[0]).toEqual({
+        provider: 'letsencrypt',
+        nice_name: 'app.example.org',
+        domain_names: ['app.example.org'],
+        meta: { letsencrypt_email: 'certs@example.com', letsencrypt_agree: true, dns_challenge: false },
+      });
+
+      // Still pending, not requested again
+      expect(await cache['requestCertificate']('app.example.org')).toBeNull();
+      issued = true;
+      expect(await cache['requestCertificate']('app.example.org')).toBe(21);
+
+      // The issued certificate is reused
+      expect(await cache['requestCertificate']('app.example.org')).toBe(21);
+      expect(requests).toHaveLength(1);
+    });
+
+    test('gives up on certificates that are not issued in time', async () => {
+      issued = false;
+      expect(await cache['requestCertificate']('app.example.org')).toBeNull();
+      cache['pendingCertificates'].get('app.example.org')!.requestedAt -= 60 * 60 * 1000;
+
+      expect(await cache['requestCertificate']('app.example.org')).toBeNull();
+      expect(cache['pendingCertificates'].size).toBe(0);
+      expect(cache['failedCertificateRequests'].has('app.example.org')).toBe(true);
+    });
+
+    test('reuses existing NPM certificates covering the domain', async () => {
+      cache['npmCertificateDomains'].set(7, ['*.example.org']);
+      expect(await cache['requestCertificate']('app.example.org')).toBe(7);
+      expect(requests).toHaveLength(0);
+    });
+
+    test('limits requests per day', async () => {
+      await cache['requestCertificate']('a.example.org');
+      await cache['requestCertificate']('b.example.org');
+      expect(await cache['requestCertificate']('c.example.org')).toBeNull();
+      expect(requests).toHaveLength(2);
+    });
+
+    test('does not retry failed domains right away', async () => {
+      failing = true;
+      expect(await cache['requestCertificate']('app.example.org')).toBeNull();
+      failing = false;
+      expect(await cache['requestCertificate']('app.example.org')).toBeNull();
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  describe('periodic refresh', () => {
+    beforeEach(() => {
+      cache = new CacheManager(parseConfig(undefined, {
+        DOCKHAND_PASSWORD: 'secret',
+        DOCKHAND_POLL_INTERVAL: '60',
+        DOCKHAND_POLL_MAX_INTERVAL: '300',
+      }));
+    });
+
+    test('schedules the next refresh after the poll interval', async () => {
+      cache.startPolling(client);
+      await cache.refreshImmediate(client);
+
+      const { polling } = cache.getStats();
+      expect(polling.consecutiveFailures).toBe(0);
+      expect(polling.nextRefreshAt!.getTime() - Date.now()).toBeGreaterThan(55_000);
+      cache.stopPolling();
+      expect(cache.getStats().polling.nextRefreshAt).toBeNull();
+    });
+
+    test('backs off while Dockhand is unreachable and resets on success', async () => {
+      cache.startPolling(client);
+      dockhand.unreachable = true;
+      await cache.refreshImmediate(client);
+      await cache.refreshImmediate(client);
+
+      let { polling } = cache.getStats();
+      expect(polling.consecutiveFailures).toBe(2);
+      expect(polling.nextRefreshAt!.getTime() - Date.now()).toBeGreaterThan(235_000);
+
+      dockhand.unreachable = false;
+      await cache.refreshImmediate(client);
+      ({ polling } = cache.getStats());
+      expect(polling.consecutiveFailures).toBe(0);
+      expect(polling.nextRefreshAt!.getTime() - Date.now()).toBeLessThanOrEqual(60_000);
+      cache.stopPolling();
+    });
+
+    test('does not poll without a client', async () => {
+      await cache.refreshImmediate(client);
+      expect(cache.getStats().polling.nextRefreshAt).toBeNull();
+    });
+  });
+});
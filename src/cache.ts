@@ -6,33 +6,78 @@
 import { DockhandClient } from './dockhand-client';
 import { NpmClient } from './npm-client';
 import { PeekapingClient } from './peekaping-client';
-import { processContainer, parseBookmarks, buildDomainName, findProxyHostByDomain, validateBaseDomain, validateGeneratedDomain, isDomainCoveredByCertificate, extractDomainFromUrl, findNpmProxyHostForContainer, generateTagColor } from './utils';
-import { extractPorts } from './utils';
-import type { CacheData, ProcessedContainer, NpmProxyHost, DockhandContainer, DockhandEnvironment, PeekapingMonitor, PeekapingCreateMonitorRequest, PeekapingTag } from './types';
-import type { NpmCreateProxyHostRequest, NpmCertificate } from './npm-types';
+import { StateStore } from './state-store';
+import { RateLimiter } from './webhook';
+import { processContainer, processBookmark, buildDomainName, findProxyHostByDomain, validateBaseDomain, validateGeneratedDomain, isDomainCoveredByCertificate, selectBaseDomain, findCertificateForDomain, findAccessListByName, getCertificateWarnings, extractDomainFromUrl, findNpmProxyHostForContainer, generateTagColor, getOwnerKey, classifyOwnedResource, diffContainers, resolveTarget, parseProxyLabels, getProxySettingChanges, expandIndexedLabels, bookmarkToContainer, BOOKMARK_ENVIRONMENT, mapWithConcurrency, getPollDelay } from './utils';
+import type { CacheData, ProcessedContainer, NpmProxyHost, DockhandContainer, DockhandEnvironment, PeekapingMonitor, PeekapingCreateMonitorRequest, PeekapingTag, OwnedResource, CleanupOptions, CleanupReportEntry, ContainerDiff, ProcessOptions, MonitorStatus, TavernConfig, BookmarkCheckResult, RefreshTimings, EnvironmentStatus, RefreshRequestResult, NpmDomainConfig, CertificateWarning } from './types';
+import type { NpmCreateProxyHostRequest, NpmCertificate, NpmAccessList } from './npm-types';
 import { logger } from './logger';
 
+export type CacheUpdateListener = (diff: ContainerDiff, data: CacheData) => void;
+
+// Last successful fetch of an environment, served while the environment is unreachable
+interface EnvironmentCacheEntry {
+  environment: DockhandEnvironment;
+  containers: ProcessedContainer[];
+  lastSuccess?: Date;
+  staleSince?: Date;
+  error?: string;
+}
+
+// Let's Encrypt certificate requests (NPM_REQUEST_CERTIFICATES)
+const CERTIFICATE_REQUEST_WINDOW_MS = 24 * 60 * 60 * 1000; // Window of NPM_CERTIFICATE_REQUEST_LIMIT
+const CERTIFICATE_RETRY_MS = 24 * 60 * 60 * 1000;          // Failed domains are not retried before
+const CERTIFICATE_ISSUE_TIMEOUT_MS = 15 * 60 * 1000;       // Pending requests not issued by then count as failed
+
 export class CacheManager {
   private data: CacheData = {
     environments: [],
     containers: [],
+    environmentStatus: [],
+    certificateWarnings: [],
     lastUpdate: new Date(),
     error: undefined,
   };
-  private bookmarks: ProcessedContainer[];
+  private environmentCache: Map<number, EnvironmentCacheEntry> = new Map(); // environmentId → last known good data
+  private bookmarks: ProcessedContainer[] = [];
+  private monitoredBookmarks: Array<{ container: DockhandContainer; env: DockhandEnvironment }> = []; // Bookmarks registered as monitors
+  private processOptions: ProcessOptions = {};
   private npmClient: NpmClient | null = null;
   private peekapingClient: PeekapingClient | null = null;
   private isRefreshing: boolean = false;
+  private concurrency: number = 4; // Environments fetched (and monitor statuses queried) in parallel
+  private lastRefreshTimings: RefreshTimings | null = null;
+
+  // Periodic refresh in addition to webhooks, backs off while Dockhand is unreachable
+  private pollInterval: number = 0; // Seconds, 0 disables polling
+  private pollMaxInterval: number = 900;
+  private pollClient: DockhandClient | null = null;
+  private pollTimer: Timer | null = null;
+  private nextPollAt: Date | null = null;
+  private consecutiveFailures: number = 0; // Refreshes in a row that could not reach Dockhand
   private debounceTimer: Timer | null = null;
-  private pendingRefreshCount: number = 0;
+  private refreshDebounceMs: number = 5000;
+  private pendingRefreshCount: number = 0;      // Requests merged into the queued run
+  private followUpQueued: boolean = false;      // Run again as soon as the current refresh finishes
+  private queuedClient: DockhandClient | null = null; // Client of the most recent request
+  private queuedFullRefresh: boolean = false;   // A merged request asked for all environments
+  private queuedEnvironmentIds: Set<number> = new Set(); // Environments named by merged webhook events
   
   // NPM auto-creation configuration
-  private npmAutoCreateDomain: string | null = null;
-  private npmCertificateId: number | null = null;
+  private npmDomains: NpmDomainConfig[] = []; // Valid base domains with their certificates
   private npmPublicAccessListId: number | null = null;
   private npmDefaultAccessListId: number | null = null;
-  private npmCertificateDomains: string[] = []; // Cached certificate domains
+  private npmCertificateDomains: Map<number, string[]> = new Map(); // certificateId → cached certificate domains
+  private npmCertificateWarningDays: number = 14;
+  private npmRequestCertificates: boolean = false; // Request Let's Encrypt certificates for uncovered domains
+  private npmLetsEncryptEmail: string | null = null;
+  private certificateRequestLimit: number = 0;
+  private certificateRequestLimiter: RateLimiter | null = null; // Requests per 24 hours (kept across reloads)
+  private failedCertificateRequests: Map<string, number> = new Map(); // domain → time of the last failed request
+  private pendingCertificates: Map<string, { id: number; requestedAt: number }> = new Map(); // domain → certificate NPM is still issuing
+  private warnedCertificates: Set<number> = new Set(); // Certificates already logged as expiring
   private autoCreatedDomains: Map<string, string> = new Map(); // containerId → domain mapping
+  private npmReconcile: boolean = false; // Update forward target of owned hosts on mismatch
   
   // Peekaping auto-creation configuration
   private peekapingNotificationIds: string[] = [];
@@ -41,103 +86,123 @@ export class CacheManager {
   private peekapingDefaultMaxRetries: number = 3;
   private autoCreatedMonitors: Map<string, string> = new Map(); // containerId → monitorId mapping
   
+  // Ownership tracking and cleanup of resources created by Tavern
+  private stateStore: StateStore = new StateStore(null); // Persistent ownership of created resources
+  private cleanup: CleanupOptions = { enabled: false, gracePeriodSeconds: 3600, action: 'disable', dryRun: false };
+  private lastCleanupReport: CleanupReportEntry[] = [];
+
+  // Listeners notified after every refresh (dashboard live updates)
+  private updateListeners: Set<CacheUpdateListener> = new Set();
+
   // Peekaping tag management
   private tagCache: Map<string, PeekapingTag> = new Map(); // tagName → tag object
   private readonly DOCKHAND_TAG = 'dockhand-tavern';
   private readonly DOCKHAND_TAG_COLOR = '#3b82f6';
 
   constructor(
-    npmClient?: NpmClient,
-    npmAutoCreateDomain?: string,
-    npmCertificateId?: number,
-    npmPublicAccessListId?: number,
-    npmDefaultAccessListId?: number,
-    peekapingClient?: PeekapingClient,
-    peekapingNotificationIds?: string[],
-    peekapingDefaultInterval?: number,
-    peekapingDefaultTimeout?: number,
-    peekapingDefaultMaxRetries?: number
+    config: TavernConfig,
+    services: { npmClient?: NpmClient; peekapingClient?: PeekapingClient; stateStore?: StateStore } = {}
   ) {
-    // Parse bookmarks once on initialization
-    this.bookmarks = parseBookmarks();
-    this.npmClient = npmClient || null;
-    this.npmPublicAccessListId = npmPublicAccessListId || null;
+    if (services.stateStore) {
+      this.stateStore = services.stateStore;
+    }
+    this.applyConfig(config, services);
+  }
+
+  /**
+   * Apply configuration and integration clients
+   * Called on startup and on config reload; cached data is kept and
+   * the new settings take effect with the next refresh
+   */
+  applyConfig(
+    config: TavernConfig,
+    services: { npmClient?: NpmClient; peekapingClient?: PeekapingClient } = {}
+  ): void {
+    const npmConfig = config.npm;
+    const peekapingConfig = config.peekaping;
+    const npmAutoCreateDomain = npmConfig?.autoCreateDomain;
+    const npmCertificateId = npmConfig?.certificateId;
+    const npmDefaultAccessListId = npmConfig?.defaultAccessListId;
+
+    // Convert configured bookmarks once (not on every refresh)
+    // and push changed bookmarks to open dashboards right away
+    // Health and monitor status are kept until the next check so unchanged bookmarks don't flicker
+    const previousContainers = this.get().containers;
+    const previousBookmarks = new Map(this.bookmarks.map(bookmark => [bookmark.id, bookmark]));
+    this.bookmarks = config.dashboard.bookmarks.map(entry => {
+      const bookmark = processBookmark(entry);
+      const previous = previousBookmarks.get(bookmark.id);
+      if (previous && entry.check && previous.health) {
+        bookmark.health = previous.health;
+        bookmark.status = previous.status;
+      }
+      if (previous && entry.monitor && previous.monitor) {
+        bookmark.monitor = previous.monitor;
+      }
+      return bookmark;
+    });
+    this.monitoredBookmarks = config.dashboard.bookmarks.filter(entry => entry.monitor).map(bookmarkToContainer);
+    if (this.bookmarks.length > 0) {
+      logger.info(`[Cache] Loaded ${this.bookmarks.length} bookmark(s)`);
+    }
+    this.notifyUpdate(previousContainers);
+    this.npmClient = services.npmClient || null;
+    this.npmPublicAccessListId = npmConfig?.publicAccessListId || null;
     this.npmDefaultAccessListId = npmDefaultAccessListId || null;
+    this.npmReconcile = npmConfig?.reconcile || false;
+    this.npmCertificateWarningDays = npmConfig?.certificateWarningDays ?? 14;
+    this.npmRequestCertificates = npmConfig?.requestCertificates || false;
+    this.npmLetsEncryptEmail = npmConfig?.letsEncryptEmail || null;
+    if (npmConfig && npmConfig.certificateRequestLimit !== this.certificateRequestLimit) {
+      this.certificateRequestLimit = npmConfig.certificateRequestLimit;
+      this.certificateRequestLimiter = new RateLimiter(this.certificateRequestLimit, CERTIFICATE_REQUEST_WINDOW_MS);
+    }
+    this.cleanup = config.cleanup;
+    this.processOptions = config.dashboard;
+    this.concurrency = config.dockhand.concurrency;
+    this.pollInterval = config.dockhand.pollInterval;
+    this.pollMaxInterval = config.dockhand.pollMaxInterval;
+    this.schedulePoll();
     
     // Initialize Peekaping client
-    this.peekapingClient = peekapingClient || null;
-    this.peekapingNotificationIds = peekapingNotificationIds || [];
-    this.peekapingDefaultInterval = peekapingDefaultInterval || 60;
-    this.peekapingDefaultTimeout = peekapingDefaultTimeout || 16;
-    this.peekapingDefaultMaxRetries = peekapingDefaultMaxRetries || 3;
+    this.peekapingClient = services.peekapingClient || null;
+    if (peekapingConfig) {
+      this.peekapingNotificationIds = peekapingConfig.notificationIds;
+      this.peekapingDefaultInterval = peekapingConfig.defaultInterval;
+      this.peekapingDefaultTimeout = peekapingConfig.defaultTimeout;
+      this.peekapingDefaultMaxRetries = peekapingConfig.defaultMaxRetries;
+    }
 
     // Validate NPM auto-creation configuration
-    if (npmAutoCreateDomain && npmCertificateId !== undefined && npmCertificateId !== null) {
+    // NPM_AUTO_CREATE_DOMAIN + NPM_CERTIFICATE_ID is the default domain, NPM_DOMAINS adds more
+    // Certificate domains are fetched with every refresh (see fetchNpmCertificates)
+    const legacyDomain = npmAutoCreateDomain && npmCertificateId !== undefined && npmCertificateId !== null
+      ? { domain: npmAutoCreateDomain, certificateId: npmCertificateId }
+      : null;
+    const configuredDomains = [...(legacyDomain ? [legacyDomain] : []), ...(npmConfig?.domains ?? [])];
+
+    if (configuredDomains.length > 0) {
       // REQUIRE NPM_DEFAULT_ACCESS_LIST_ID for security
       if (npmDefaultAccessListId === undefined || npmDefaultAccessListId === null) {
         logger.warn('[NPM] NPM_DEFAULT_ACCESS_LIST_ID is required for NPM auto-creation');
         logger.warn('[NPM]   This prevents accidentally creating publicly accessible proxy hosts');
         logger.warn('[NPM]   NPM auto-creation disabled');
-        this.npmAutoCreateDomain = null;
-        this.npmCertificateId = null;
+        this.npmDomains = [];
         return;
       }
 
-      // Validate base domain format
-      if (!validateBaseDomain(npmAutoCreateDomain)) {
-        logger.error(`[NPM] Invalid NPM_AUTO_CREATE_DOMAIN: "${npmAutoCreateDomain}"`);
+      // Validate base domain formats, invalid domains are dropped
+      this.npmDomains = configuredDomains.filter(entry => {
+        if (validateBaseDomain(entry.domain)) {
+          return true;
+        }
+        logger.error(`[NPM] Invalid ${entry === legacyDomain ? 'NPM_AUTO_CREATE_DOMAIN' : 'domain in NPM_DOMAINS'}: "${entry.domain}"`);
         logger.error('[NPM]   Domain format is invalid (cannot contain wildcards, must be valid DNS name)');
-        logger.error('[NPM]   NPM auto-creation disabled');
-        this.npmAutoCreateDomain = null;
-        this.npmCertificateId = null;
-        return;
-      }
-
-      // Valid domain - set configuration
-      this.npmAutoCreateDomain = npmAutoCreateDomain;
-      this.npmCertificateId = npmCertificateId;
-
-      // Fetch certificate details asynchronously (don't block constructor)
-      if (this.npmClient) {
-        this.fetchCertificateDetails().catch(error => {
-          logger.error('[NPM] Failed to fetch certificate details:', error);
-          logger.error('[NPM]   Certificate domain validation will be skipped');
-        });
-      }
+        logger.error(`[NPM]   NPM auto-creation for ${entry.domain} disabled`);
+        return false;
+      });
     } else {
-      this.npmAutoCreateDomain = null;
-      this.npmCertificateId = null;
-    }
-  }
-
-  /**
-   * Fetch certificate details and cache domain names
-   * Called during initialization to validate certificate coverage
-   */
-  private async fetchCertificateDetails(): Promise<void> {
-    if (!this.npmClient || this.npmCertificateId === null) {
-      return;
-    }
-
-    try {
-      logger.debug(`[NPM] Fetching certificate ID ${this.npmCertificateId} details...`);
-      const certificate = await this.npmClient.fetchCertificate(this.npmCertificateId);
-      
-      this.npmCertificateDomains = certificate.domain_names || [];
-      
-      logger.debug(`[NPM] Certificate covers domains: ${this.npmCertificateDomains.join(', ')}`);
-      
-      // Check if certificate has expired
-      const expiresOn = new Date(certificate.expires_on);
-      const now = new Date();
-      if (expiresOn < now) {
-        logger.warn(`[NPM] WARNING: Certificate ID ${this.npmCertificateId} has expired on ${certificate.expires_on}`);
-        logger.warn('[NPM]   Auto-created proxy hosts may not work correctly');
-      }
-    } catch (error) {
-      logger.error(`[NPM] Failed to fetch certificate ID ${this.npmCertificateId}:`, error);
-      logger.error('[NPM]   Certificate may not exist or NPM connection failed');
-      logger.error('[NPM]   Domain validation will be skipped');
+      this.npmDomains = [];
     }
   }
 
@@ -150,14 +215,16 @@ export class CacheManager {
     npmProxyHosts: NpmProxyHost[]
   ): Promise<void> {
     // Check if auto-creation is enabled
-    if (!this.npmClient || !this.npmAutoCreateDomain || this.npmCertificateId === null) {
+    if (!this.npmClient || this.npmDomains.length === 0) {
       return; // Auto-creation not configured
     }
 
     logger.debug('[NPM] Checking for proxy hosts to auto-create...');
 
     let createdCount = 0;
+    let updatedCount = 0;
     let skippedCount = 0;
+    let accessLists: NpmAccessList[] | undefined; // Fetched on first use by a dockhand-tavern.access label
 
     for (const { container, env } of containersWithEnv) {
       // CRITICAL: Only process running containers - skip all other states
@@ -180,6 +247,16 @@ export class CacheManager {
         continue;
       }
 
+      // Base domain: dockhand-tavern.domain label, otherwise the environment's domain or the default
+      const baseDomain = selectBaseDomain(container, env, this.npmDomains);
+      const domainLabel = container.labels?.['dockhand-tavern.domain'];
+      if (domainLabel && !baseDomain) {
+        logger.warn(`[NPM] Skipping "${container.name}": Domain label "${domainLabel}" is not a configured base domain`);
+        logger.warn(`[NPM]   Configured domains: [${this.npmDomains.map(entry => entry.domain).join(', ')}]`);
+        skippedCount++;
+        continue;
+      }
+
       // Determine domain based on priority:
       // 1. dockhand-tavern.url (custom URL - extract domain)
       // 2. dockhand-tavern.name (custom name - sanitize and build)
@@ -236,7 +313,11 @@ export class CacheManager {
           domainSource = 'container';
         }
         
-        domain = buildDomainName(nameForDomain, this.npmAutoCreateDomain);
+        if (!baseDomain) {
+          logger.debug(`[NPM] Skipping "${container.name}": No base domain configured for environment "${env.name}"`);
+          continue;
+        }
+        domain = buildDomainName(nameForDomain, baseDomain.domain);
       }
 
       // Validate generated/extracted domain format
@@ -246,32 +327,78 @@ export class CacheManager {
         continue;
       }
 
-      // Check if domain is covered by certificate (if certificate domains are cached)
-      if (this.npmCertificateDomains.length > 0) {
-        if (!isDomainCoveredByCertificate(domain, this.npmCertificateDomains)) {
-          logger.warn(`[NPM] Skipping "${container.name}": Domain "${domain}" not covered by certificate ID ${this.npmCertificateId}`);
-          logger.warn(`[NPM]   Certificate covers: [${this.npmCertificateDomains.join(', ')}]`);
-          continue;
+      // Pick the certificate covering the domain (the base domain's certificate first)
+      // Uncovered domains get a certificate requested right before their proxy host is created (if enabled)
+      let certificateId = findCertificateForDomain(domain, this.npmDomains, this.npmCertificateDomains, baseDomain);
+      if (certificateId === null && !this.npmRequestCertificates) {
+        logger.warn(`[NPM] Skipping "${container.name}": Domain "${domain}" not covered by any configured certificate`);
+        for (const [id, covered] of this.npmCertificateDomains) {
+          logger.warn(`[NPM]   Certificate ID ${id} covers: [${covered.join(', ')}]`);
         }
+        continue;
+      }
+
+      // Per-container proxy settings (dockhand-tavern.proxy.* labels)
+      const { settings: proxySettings, problems } = parseProxyLabels(container.labels);
+      if (problems.length > 0) {
+        logger.warn(`[NPM] Skipping "${container.name}": Invalid proxy labels`);
+        problems.forEach(problem => logger.warn(`[NPM]   ${problem}`));
+        skippedCount++;
+        continue;
       }
+      const { forward_port: forwardPort, ...hostSettings } = proxySettings;
 
       // Check if this domain already exists in NPM (using sanitized name)
       const existingHost = findProxyHostByDomain(domain, npmProxyHosts);
 
       if (existingHost) {
         // Domain already exists - check if it points to the right target
-        const ports = extractPorts(container.ports);
-        const firstPort = ports.length > 0 ? ports[0] : null;
+        const target = resolveTarget(container, env, this.processOptions.preferredNetworks);
+
+        if (target) {
+          const expectedHost = target.host;
+          const expectedPort = forwardPort ?? target.port;
+          const targetMismatch = existingHost.forward_host !== expectedHost || existingHost.forward_port !== expectedPort;
 
-        if (firstPort) {
-          const expectedHost = env.publicIp;
-          const expectedPort = firstPort;
+          // Label settings are only compared for hosts created by Tavern, hand-made hosts keep theirs
+          const owned = !!this.stateStore.findByProxyHostId(existingHost.id);
+          const settingChanges = owned ? getProxySettingChanges(existingHost, proxySettings) : {};
+          const changedSettings = Object.keys(settingChanges);
 
-          if (existingHost.forward_host !== expectedHost || existingHost.forward_port !== expectedPort) {
+          if (targetMismatch) {
             logger.warn(`[NPM] Domain mismatch detected for ${domain}`);
             logger.warn(`[NPM]   Current target: ${existingHost.forward_host}:${existingHost.forward_port}`);
             logger.warn(`[NPM]   Expected target: ${expectedHost}:${expectedPort}`);
-            logger.warn('[NPM]   Skipping - not auto-updating existing entries');
+          }
+          if (changedSettings.length > 0) {
+            logger.warn(`[NPM] Proxy settings of ${domain} differ from its labels: ${changedSettings.join(', ')}`);
+          }
+
+          if (targetMismatch || changedSettings.length > 0) {
+            if (!this.npmReconcile) {
+              logger.warn('[NPM]   Skipping - not auto-updating existing entries (NPM_RECONCILE disabled)');
+            } else if (!owned) {
+              logger.warn(`[NPM]   Skipping - proxy host ID ${existingHost.id} was not created by Dockhand Tavern`);
+            } else {
+              try {
+                logger.info(`[NPM] Updating proxy host ID ${existingHost.id} for ${domain} -> ${expectedHost}:${expectedPort}`);
+                const updatedHost = await this.npmClient.updateProxyHost(existingHost.id, {
+                  forward_host: expectedHost,
+                  forward_port: expectedPort,
+                  ...settingChanges,
+                });
+                logger.info(`[NPM] Successfully updated proxy host (ID: ${updatedHost.id})`);
+                updatedCount++;
+
+                // Replace in npmProxyHosts array so URL resolution sees the new target
+                const index = npmProxyHosts.indexOf(existingHost);
+                npmProxyHosts[index] = updatedHost;
+                this.autoCreatedDomains.set(container.id, domain);
+                continue;
+              } catch (error) {
+                logger.error(`[NPM] Failed to update proxy host for ${domain}:`, error);
+              }
+            }
           }
         }
 
@@ -280,17 +407,17 @@ export class CacheManager {
       }
 
       // Domain doesn't exist - create it
-      // Extract ports
-      const ports = extractPorts(container.ports);
-      const firstPort = ports.length > 0 ? ports[0] : null;
+      const target = resolveTarget(container, env, this.processOptions.preferredNetworks);
 
-      if (!firstPort) {
-        logger.debug(`[NPM] Skipping "${container.name}": No exposed ports`);
+      if (!target) {
+        logger.debug(`[NPM] Skipping "${container.name}": No exposed ports or network IP`);
         continue;
       }
 
-      // Determine access list ID based on dockhand-tavern.public label
-      const isPublic = container.labels?.['dockhand-tavern.public'] === 'true';
+      // Determine access list ID based on dockhand-tavern.access / dockhand-tavern.public labels
+      // A named access list takes precedence over the public label
+      const accessName = container.labels?.['dockhand-tavern.access']?.trim();
+      const isPublic = !accessName && container.labels?.['dockhand-tavern.public'] === 'true';
       
       // Check if public label is set but public access list is not configured
       if (isPublic && this.npmPublicAccessListId === null) {
@@ -304,25 +431,44 @@ export class CacheManager {
       // npmDefaultAccessListId is always set here (validated in constructor)
       let accessListId = this.npmDefaultAccessListId!;
 
-      if (isPublic && this.npmPublicAccessListId !== null) {
+      if (accessName) {
+        accessLists ??= await this.fetchNpmAccessLists();
+        const accessList = findAccessListByName(accessName, accessLists);
+        if (accessList) {
+          accessListId = accessList.id;
+        } else {
+          // Fail closed: a typo must never leave a host less protected than the default
+          logger.warn(`[NPM] Container "${container.name}" names unknown access list "${accessName}"`);
+          logger.warn(`[NPM]   Known access lists: [${accessLists.map(list => list.name).join(', ')}]`);
+          logger.warn(`[NPM]   Using default access list ID ${accessListId}`);
+        }
+      } else if (isPublic && this.npmPublicAccessListId !== null) {
         accessListId = this.npmPublicAccessListId;
       }
 
-      // Build proxy host request
+      if (certificateId === null) {
+        certificateId = await this.requestCertificate(domain);
+        if (certificateId === null) {
+          if (this.pendingCertificates.has(domain)) {
+            logger.info(`[NPM] Waiting for the certificate of "${domain}", "${container.name}" is created on a later refresh`);
+          } else {
+            logger.warn(`[NPM] Skipping "${container.name}": No certificate available for "${domain}"`);
+          }
+          skippedCount++;
+          continue;
+        }
+      }
+
+      // Build proxy host request (scheme, websocket, caching, HSTS etc. from labels or defaults)
       const proxyHostRequest: NpmCreateProxyHostRequest = {
         domain_names: [domain],
-        forward_scheme: 'http',
-        forward_host: env.publicIp,
-        forward_port: firstPort,
+        forward_host: target.host,
+        forward_port: forwardPort ?? target.port,
         access_list_id: accessListId,
-        certificate_id: this.npmCertificateId,
+        certificate_id: certificateId,
         ssl_forced: true,
         http2_support: true,
-        hsts_enabled: true,
-        hsts_subdomains: false,
-        caching_enabled: false,
-        block_exploits: true,
-        allow_websocket_upgrade: true,
+        ...hostSettings,
         enabled: true,
       };
 
@@ -336,15 +482,16 @@ export class CacheManager {
         // Log creation with all context
         logger.info(`[NPM] Creating proxy host for service "${serviceName}" (container: ${container.name})`);
         logger.info(`[NPM]   Environment: ${env.name} (${env.publicIp})`);
-        logger.info(`[NPM]   Domain: ${domain} -> ${env.publicIp}:${firstPort}`);
+        logger.info(`[NPM]   Domain: ${domain} -> ${proxyHostRequest.forward_scheme}://${target.host}:${proxyHostRequest.forward_port}`);
         logger.info(`[NPM]   Access: ${accessListId ? `list ID ${accessListId}` : 'public (no access list)'}`);
         
         const createdHost = await this.npmClient.createProxyHost(proxyHostRequest);
         logger.info(`[NPM] Successfully created proxy host (ID: ${createdHost.id})`);
         createdCount++;
 
-        // Track the auto-created domain for this container
+        // Track the auto-created domain and ownership of the new host
         this.autoCreatedDomains.set(container.id, domain);
+        this.recordOwnership(container, env, { domain, proxyHostId: createdHost.id });
         
         // Add warning if custom URL also exists (conflict scenario)
         if (customUrl && domainSource === 'custom-url') {
@@ -361,8 +508,8 @@ export class CacheManager {
       }
     }
 
-    if (createdCount > 0 || skippedCount > 0) {
-      logger.info(`[NPM] Auto-creation complete: ${createdCount} created, ${skippedCount} skipped`);
+    if (createdCount > 0 || updatedCount > 0 || skippedCount > 0) {
+      logger.info(`[NPM] Auto-creation complete: ${createdCount} created, ${updatedCount} updated, ${skippedCount} skipped`);
     }
   }
 
@@ -478,6 +625,16 @@ export class CacheManager {
       return; // Can't proceed without knowing what monitors exist
     }
 
+    // Forget owned monitors that were deleted in Peekaping
+    const existingMonitorIds = new Set(existingMonitors.map(monitor => monitor.id));
+    for (const resource of this.stateStore.all()) {
+      if (resource.monitorId !== undefined && !existingMonitorIds.has(resource.monitorId)) {
+        logger.info(`[State] Monitor ID ${resource.monitorId} no longer exists in Peekaping, forgetting it`);
+        delete resource.monitorId;
+        this.forgetIfEmpty(resource);
+      }
+    }
+
     for (const { container, env } of containersWithEnv) {
       // CRITICAL: Only process running containers - skip all other states
       // Docker states: running, exited, paused, restarting, removing, dead, created
@@ -509,7 +666,7 @@ export class CacheManager {
       let urlSource: 'npm-proxy' | 'custom-url' | 'local-ip';
 
       // Priority 1: NPM proxy host with domain
-      const npmHost = findNpmProxyHostForContainer(container, env, npmProxyHosts);
+      const npmHost = findNpmProxyHostForContainer(container, env, npmProxyHosts, this.processOptions.preferredNetworks);
       if (npmHost && npmHost.domain_names.length > 0) {
         protocol = 'https';
         monitorUrl = `https://${npmHost.domain_names[0]}`;
@@ -522,15 +679,15 @@ export class CacheManager {
         monitorUrl = customUrl;
         urlSource = 'custom-url';
       }
-      // Priority 3: Local IP:port
+      // Priority 3: Target host:port (published port or network IP)
       else {
-        const ports = extractPorts(container.ports);
-        if (ports.length === 0) {
-          logger.debug(`[Peekaping] Skipping "${container.name}" (no exposed ports)`);
+        const target = resolveTarget(container, env, this.processOptions.preferredNetworks);
+        if (!target) {
+          logger.debug(`[Peekaping] Skipping "${container.name}" (no exposed ports or network IP)`);
           continue;
         }
         protocol = 'http';
-        monitorUrl = `http://${env.publicIp}:${ports[0]}`;
+        monitorUrl = `http://${target.host}:${target.port}`;
         urlSource = 'local-ip';
       }
 
@@ -540,6 +697,19 @@ export class CacheManager {
         container.labels?.['com.docker.compose.service'] || 
         container.name;
 
+      // Owned monitor from a previous run takes precedence over name/URL matching
+      const owned = this.stateStore.get(getOwnerKey(env.id, container.name));
+      const ownedMonitor = owned?.monitorId
+        ? existingMonitors.find(monitor => monitor.id === owned.monitorId)
+        : undefined;
+
+      if (ownedMonitor) {
+        logger.debug(`[Peekaping] Monitor "${ownedMonitor.name}" owned by "${container.name}" already exists (ID: ${ownedMonitor.id})`);
+        skippedCount++;
+        this.autoCreatedMonitors.set(container.id, ownedMonitor.id);
+        continue;
+      }
+
       // Check if monitor already exists
       // We check by BOTH name AND URL to prevent duplicates
       // This is stricter than checking just one or the other
@@ -649,6 +819,7 @@ export class CacheManager {
 
         // Track the auto-created monitor for this container
         this.autoCreatedMonitors.set(container.id, createdMonitor.id);
+        this.recordOwnership(container, env, { monitorId: createdMonitor.id });
 
         // Add to existing monitors list so subsequent checks see it
         existingMonitors.push(createdMonitor);
@@ -663,126 +834,939 @@ export class CacheManager {
   }
 
   /**
-   * Refresh cache from Dockhand API (and optionally NPM)
-   * This is the actual refresh logic (called by refreshDebounced)
+   * Record resources created by Tavern for a container
+   * Merges with existing resources of the same owner key
    */
-  private async doRefresh(client: DockhandClient): Promise<void> {
-    try {
-      logger.debug('[Cache] Refreshing cache from Dockhand...');
+  private recordOwnership(
+    container: DockhandContainer,
+    env: DockhandEnvironment,
+    resources: Pick<OwnedResource, 'domain' | 'proxyHostId' | 'monitorId'>
+  ): void {
+    const key = getOwnerKey(env.id, container.name);
+    const existing = this.stateStore.get(key);
+
+    this.stateStore.set({
+      key,
+      containerName: container.name,
+      environmentId: env.id,
+      createdAt: new Date().toISOString(),
+      ...existing,
+      containerId: container.id,
+      ...resources,
+    });
+  }
 
-      // Clear auto-created domains and monitors maps (will be rebuilt during this refresh)
-      this.autoCreatedDomains.clear();
-      this.autoCreatedMonitors.clear();
+  /**
+   * Keep owned resource entries in sync with the current containers
+   * Container IDs change on every re-deploy, the owner key does not
+   */
+  private syncOwnedResources(
+    containersWithEnv: Array<{ container: DockhandContainer; env: DockhandEnvironment }>
+  ): void {
+    for (const { container, env } of containersWithEnv) {
+      const resource = this.stateStore.get(getOwnerKey(env.id, container.name));
+      if (resource) {
+        resource.containerId = container.id;
+      }
+    }
+  }
 
-      // 1. Fetch NPM proxy hosts (if NPM client available)
-      let npmProxyHosts: NpmProxyHost[] = [];
-      if (this.npmClient) {
-        try {
-          logger.debug('[Cache] Fetching NPM proxy hosts...');
-          npmProxyHosts = await this.npmClient.fetchProxyHosts();
-          logger.debug(`[Cache] Fetched ${npmProxyHosts.length} NPM proxy host(s)`);
-        } catch (error) {
-          logger.error('[Cache] Failed to fetch NPM proxy hosts:', error);
-          // Continue without NPM data (fail silently)
-        }
+  /**
+   * Forget proxy hosts that no longer exist in NPM (e.g. deleted by hand)
+   * Must only be called with a successfully fetched proxy host list
+   */
+  private forgetDeletedProxyHosts(npmProxyHosts: NpmProxyHost[]): void {
+    const existingIds = new Set(npmProxyHosts.map(host => host.id));
+
+    for (const resource of this.stateStore.all()) {
+      if (resource.proxyHostId !== undefined && !existingIds.has(resource.proxyHostId)) {
+        logger.info(`[State] Proxy host ID ${resource.proxyHostId} (${resource.domain}) no longer exists in NPM, forgetting it`);
+        delete resource.proxyHostId;
+        delete resource.domain;
+        this.forgetIfEmpty(resource);
       }
+    }
+  }
 
-      // 2. Fetch environments
-      const environments = await client.fetchEnvironments();
+  /**
+   * Drop an owned resource entry once it owns nothing anymore
+   */
+  private forgetIfEmpty(resource: OwnedResource): void {
+    if (resource.proxyHostId === undefined && resource.monitorId === undefined) {
+      this.stateStore.delete(resource.key);
+    }
+  }
 
-      // 3. Fetch raw containers for all environments
-      const allRawContainers: Array<{ container: DockhandContainer; env: DockhandEnvironment }> = [];
-      
-      for (const env of environments) {
-        try {
-          const rawContainers = await client.fetchContainers(env.id);
-          for (const container of rawContainers) {
-            allRawContainers.push({ container, env });
-          }
-        } catch (error) {
-          logger.error(`[Cache] Failed to fetch containers for env ${env.name}:`, error);
-          // Continue with other environments
+  /**
+   * Delete or disable resources whose container has been gone for longer than the grace period
+   * Only resources created by Tavern are considered, and only for environments
+   * that were fetched successfully during this refresh
+   */
+  private async cleanupOrphanedResources(
+    containersWithEnv: Array<{ container: DockhandContainer; env: DockhandEnvironment }>,
+    checkedEnvironmentIds: Set<number>
+  ): Promise<void> {
+    if (!this.cleanup.enabled) {
+      return;
+    }
+
+    const presentKeys = new Set(
+      containersWithEnv.map(({ container, env }) => getOwnerKey(env.id, container.name))
+    );
+    const now = new Date();
+    const gracePeriodMs = this.cleanup.gracePeriodSeconds * 1000;
+    const report: CleanupReportEntry[] = [];
+
+    for (const resource of this.stateStore.all()) {
+      const status = classifyOwnedResource(resource, presentKeys, checkedEnvironmentIds, now, gracePeriodMs);
+
+      if (status === 'unknown') {
+        continue;
+      }
+
+      if (status === 'present') {
+        if (resource.missingSince) {
+          logger.info(`[Cleanup] Container "${resource.containerName}" is back, keeping its resources`);
+          delete resource.missingSince;
+        }
+        if (resource.disabledAt) {
+          await this.enableOwnedResource(resource);
         }
+        continue;
+      }
+
+      if (!resource.missingSince) {
+        resource.missingSince = now.toISOString();
+        logger.info(`[Cleanup] Container "${resource.containerName}" is gone, cleanup in ${this.cleanup.gracePeriodSeconds}s`);
+      }
+
+      if (status !== 'expired' || resource.disabledAt) {
+        continue;
+      }
+
+      const entry: CleanupReportEntry = {
+        key: resource.key,
+        domain: resource.domain,
+        proxyHostId: resource.proxyHostId,
+        monitorId: resource.monitorId,
+        missingSince: resource.missingSince,
+        action: this.cleanup.dryRun ? `would-${this.cleanup.action}` : this.cleanup.action,
+      };
+      report.push(entry);
+
+      if (this.cleanup.dryRun) {
+        logger.info(`[Cleanup] Dry run - would ${this.cleanup.action} resources of "${resource.containerName}"`);
+        logger.info(`[Cleanup]   Proxy host: ${resource.proxyHostId ?? 'none'} (${resource.domain ?? 'no domain'}), Monitor: ${resource.monitorId ?? 'none'}`);
+        continue;
+      }
+
+      if (this.cleanup.action === 'delete') {
+        await this.deleteOwnedResource(resource);
+      } else {
+        await this.disableOwnedResource(resource);
+      }
+    }
+
+    this.lastCleanupReport = report;
+  }
+
+  /**
+   * Delete the proxy host and monitor of an owned resource entry
+   * The entry is forgotten once nothing is left to delete
+   */
+  private async deleteOwnedResource(resource: OwnedResource): Promise<void> {
+    if (resource.proxyHostId !== undefined && this.npmClient) {
+      try {
+        await this.npmClient.deleteProxyHost(resource.proxyHostId);
+        logger.info(`[Cleanup] Deleted proxy host ID ${resource.proxyHostId} (${resource.domain})`);
+        delete resource.proxyHostId;
+        delete resource.domain;
+      } catch (error) {
+        logger.error(`[Cleanup] Failed to delete proxy host ID ${resource.proxyHostId}:`, error);
+      }
+    }
+
+    if (resource.monitorId !== undefined && this.peekapingClient) {
+      try {
+        await this.peekapingClient.deleteMonitor(resource.monitorId);
+        logger.info(`[Cleanup] Deleted monitor ID ${resource.monitorId}`);
+        delete resource.monitorId;
+      } catch (error) {
+        logger.error(`[Cleanup] Failed to delete monitor ID ${resource.monitorId}:`, error);
+      }
+    }
+
+    this.forgetIfEmpty(resource);
+  }
+
+  /**
+   * Disable the proxy host and pause the monitor of an owned resource entry
+   */
+  private async disableOwnedResource(resource: OwnedResource): Promise<void> {
+    try {
+      if (resource.proxyHostId !== undefined && this.npmClient) {
+        await this.npmClient.disableProxyHost(resource.proxyHostId);
+        logger.info(`[Cleanup] Disabled proxy host ID ${resource.proxyHostId} (${resource.domain})`);
+      }
+      if (resource.monitorId !== undefined && this.peekapingClient) {
+        await this.peekapingClient.updateMonitor(resource.monitorId, { active: false });
+        logger.info(`[Cleanup] Paused monitor ID ${resource.monitorId}`);
+      }
+      resource.disabledAt = new Date().toISOString();
+    } catch (error) {
+      logger.error(`[Cleanup] Failed to disable resources of "${resource.containerName}":`, error);
+    }
+  }
+
+  /**
+   * Re-enable resources that were disabled by cleanup once their container is back
+   */
+  private async enableOwnedResource(resource: OwnedResource): Promise<void> {
+    try {
+      if (resource.proxyHostId !== undefined && this.npmClient) {
+        await this.npmClient.enableProxyHost(resource.proxyHostId);
+        logger.info(`[Cleanup] Re-enabled proxy host ID ${resource.proxyHostId} (${resource.domain})`);
+      }
+      if (resource.monitorId !== undefined && this.peekapingClient) {
+        await this.peekapingClient.updateMonitor(resource.monitorId, { active: true });
+        logger.info(`[Cleanup] Resumed monitor ID ${resource.monitorId}`);
+      }
+      delete resource.disabledAt;
+    } catch (error) {
+      logger.error(`[Cleanup] Failed to re-enable resources of "${resource.containerName}":`, error);
+    }
+  }
+
+  /**
+   * Fetch status and uptime of the monitors found or created during this refresh
+   * Returns containerId → status; a failing monitor is reported as unknown
+   * @param containerIds Only fetch monitors of these containers (targeted refresh)
+   */
+  private async fetchMonitorStatuses(containerIds?: Set<string>): Promise<Map<string, MonitorStatus>> {
+    const statuses = new Map<string, MonitorStatus>();
+    if (!this.peekapingClient || this.autoCreatedMonitors.size === 0) {
+      return statuses;
+    }
+
+    const peekapingClient = this.peekapingClient;
+    const monitors = [...this.autoCreatedMonitors].filter(([containerId]) => !containerIds || containerIds.has(containerId));
+    const monitorIds = [...new Set(monitors.map(([, monitorId]) => monitorId))];
+    const results = await mapWithConcurrency(monitorIds, this.concurrency, monitorId =>
+      peekapingClient.fetchMonitorStatus(monitorId)
+    );
+
+    const byMonitorId = new Map<string, MonitorStatus>();
+    monitorIds.forEach((monitorId, index) => {
+      const result = results[index];
+      if (result.status === 'fulfilled') {
+        byMonitorId.set(monitorId, result.value);
+      } else {
+        logger.debug(`[Peekaping] Failed to fetch status of monitor ${monitorId}:`, result.reason);
+        byMonitorId.set(monitorId, { monitorId, status: 'unknown' });
+      }
+    });
+
+    for (const [containerId, monitorId] of monitors) {
+      statuses.set(containerId, byMonitorId.get(monitorId)!);
+    }
+
+    logger.debug(`[Peekaping] Fetched status of ${byMonitorId.size} monitor(s)`);
+    return statuses;
+  }
+
+  /**
+   * Fetch NPM access lists for the dockhand-tavern.access label
+   * (empty list if NPM is not configured or not reachable)
+   */
+  private async fetchNpmAccessLists(): Promise<NpmAccessList[]> {
+    if (!this.npmClient) {
+      return [];
+    }
+
+    try {
+      logger.debug('[Cache] Fetching NPM access lists...');
+      const accessLists = await this.npmClient.fetchAccessLists();
+      logger.debug(`[Cache] Fetched ${accessLists.length} NPM access list(s)`);
+      return accessLists;
+    } catch (error) {
+      logger.error('[Cache] Failed to fetch NPM access lists:', error);
+      // Named access lists fall back to the default list
+      return [];
+    }
+  }
+
+  /**
+   * Get a certificate for a domain that no configured certificate covers (NPM_REQUEST_CERTIFICATES)
+   * Reuses any NPM certificate covering the domain, otherwise requests one from Let's Encrypt.
+   * The refresh does not wait for the issuance: the request is kept as pending and checked
+   * again on the next refresh. Requests are limited per 24 hours and failed domains are not
+   * retried for a day, so a misconfigured label cannot exhaust the Let's Encrypt rate limits
+   * @returns Certificate ID, or null if no certificate is available (yet)
+   */
+  private async requestCertificate(domain: string): Promise<number | null> {
+    for (const [certificateId, covered] of this.npmCertificateDomains) {
+      if (isDomainCoveredByCertificate(domain, covered)) {
+        this.pendingCertificates.delete(domain);
+        return certificateId;
+      }
+    }
+
+    if (!this.npmClient || !this.npmLetsEncryptEmail || !this.certificateRequestLimiter) {
+      return null;
+    }
+
+    const pending = this.pendingCertificates.get(domain);
+    if (pending) {
+      return this.checkPendingCertificate(domain, pending);
+    }
+
+    const failedAt = this.failedCertificateRequests.get(domain);
+    if (failedAt !== undefined && Date.now() - failedAt < CERTIFICATE_RETRY_MS) {
+      logger.debug(`[NPM] Not requesting a certificate for ${domain}: last request failed at ${new Date(failedAt).toISOString()}`);
+      return null;
+    }
+
+    const rate = this.certificateRequestLimiter.hit('letsencrypt');
+    if (!rate.allowed) {
+      // Only the first request over the limit is logged as warning
+      const message = `[NPM] Certificate request limit reached (${this.certificateRequestLimit} per 24 hours), ` +
+        `not requesting a certificate for ${domain} (next request in ${Math.ceil(rate.retryAfter / 60)} min)`;
+      if (rate.firstRejection) {
+        logger.warn(message);
+      } else {
+        logger.debug(message);
+      }
+      return null;
+    }
+
+    try {
+      logger.info(`[NPM] Requesting Let's Encrypt certificate for ${domain}...`);
+      const requested = await this.npmClient.createCertificate({
+        provider: 'letsencrypt',
+        nice_name: domain,
+        domain_names: [domain],
+        meta: { letsencrypt_email: this.npmLetsEncryptEmail, letsencrypt_agree: true, dns_challenge: false },
+      });
+      if (!requested.expires_on) {
+        this.pendingCertificates.set(domain, { id: requested.id, requestedAt: Date.now() });
+        logger.info(`[NPM] Certificate ID ${requested.id} for ${domain} is being issued, checking again on the next refresh`);
+        return null;
+      }
+      return this.useIssuedCertificate(domain, requested);
+    } catch (error) {
+      this.failedCertificateRequests.set(domain, Date.now());
+      logger.error(`[NPM] Failed to request certificate for ${domain}:`, error);
+      logger.error('[NPM]   The domain must resolve to NPM and port 80 must be reachable (HTTP challenge)');
+      return null;
+    }
+  }
+
+  /**
+   * Check once whether NPM has issued a pending certificate (expiry date is set)
+   * Requests still pending after CERTIFICATE_ISSUE_TIMEOUT_MS count as failed
+   */
+  private async checkPendingCertificate(domain: string, pending: { id: number; requestedAt: number }): Promise<number | null> {
+    try {
+      const certificate = await this.npmClient!.fetchCertificate(pending.id);
+      if (certificate.expires_on) {
+        return this.useIssuedCertificate(domain, certificate);
+      }
+    } catch (error) {
+      // Checked again on the next refresh until the timeout
+      logger.warn(`[NPM] Cannot check pending certificate ID ${pending.id} for ${domain}:`, error);
+    }
+
+    if (Date.now() - pending.requestedAt < CERTIFICATE_ISSUE_TIMEOUT_MS) {
+      return null;
+    }
+    this.pendingCertificates.delete(domain);
+    this.failedCertificateRequests.set(domain, Date.now());
+    logger.error(`[NPM] Certificate ID ${pending.id} for ${domain} was not issued within ${CERTIFICATE_ISSUE_TIMEOUT_MS / 60000} min`);
+    logger.error('[NPM]   The domain must resolve to NPM and port 80 must be reachable (HTTP challenge)');
+    return null;
+  }
+
+  /**
+   * Remember an issued certificate for the coverage check and clear its request state
+   */
+  private useIssuedCertificate(domain: string, certificate: NpmCertificate): number {
+    this.npmCertificateDomains.set(certificate.id, certificate.domain_names || [domain]);
+    this.pendingCertificates.delete(domain);
+    this.failedCertificateRequests.delete(domain);
+    logger.info(`[NPM] Issued certificate ID ${certificate.id} for ${domain} (expires ${certificate.expires_on})`);
+    return certificate.id;
+  }
+
+  /**
+   * Fetch all NPM certificates and cache their domains for the coverage check of auto-creation
+   * Returns null if NPM is unreachable, so the last certificate warnings are kept
+   */
+  private async fetchNpmCertificates(): Promise<NpmCertificate[] | null> {
+    if (!this.npmClient) {
+      return [];
+    }
+
+    try {
+      logger.debug('[Cache] Fetching NPM certificates...');
+      const certificates = await this.npmClient.fetchCertificates();
+      logger.debug(`[Cache] Fetched ${certificates.length} NPM certificate(s)`);
+      // Certificates NPM is still issuing (no expiry date yet) cannot be used
+      this.npmCertificateDomains = new Map(certificates
+        .filter(certificate => certificate.expires_on)
+        .map(certificate => [certificate.id, certificate.domain_names || []]));
+      return certificates;
+    } catch (error) {
+      logger.error('[Cache] Failed to fetch NPM certificates:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check expiry of the certificates used by proxied containers
+   * Each certificate is logged once when it enters the warning threshold
+   */
+  private checkCertificates(
+    certificates: NpmCertificate[],
+    containers: ProcessedContainer[],
+    npmProxyHosts: NpmProxyHost[]
+  ): CertificateWarning[] {
+    const warnings = getCertificateWarnings(certificates, containers, npmProxyHosts, this.npmCertificateWarningDays);
+
+    for (const warning of warnings) {
+      if (!this.warnedCertificates.has(warning.id)) {
+        logger.warn(warning.daysLeft < 0
+          ? `[NPM] Certificate "${warning.name}" (ID ${warning.id}) has expired on ${warning.expiresOn.toISOString()}`
+          : `[NPM] Certificate "${warning.name}" (ID ${warning.id}) expires in ${warning.daysLeft} day(s) on ${warning.expiresOn.toISOString()}`);
+        logger.warn(`[NPM]   Used by ${warning.containers.length} container(s), domains: [${warning.domains.join(', ')}]`);
+      }
+    }
+    this.warnedCertificates = new Set(warnings.map(warning => warning.id));
+
+    return warnings;
+  }
+
+  /**
+   * Fetch NPM proxy hosts (empty list if NPM is not configured or not reachable)
+   */
+  private async fetchNpmProxyHosts(): Promise<NpmProxyHost[]> {
+    if (!this.npmClient) {
+      return [];
+    }
+
+    try {
+      logger.debug('[Cache] Fetching NPM proxy hosts...');
+      const npmProxyHosts = await this.npmClient.fetchProxyHosts();
+      logger.debug(`[Cache] Fetched ${npmProxyHosts.length} NPM proxy host(s)`);
+      this.forgetDeletedProxyHosts(npmProxyHosts);
+      return npmProxyHosts;
+    } catch (error) {
+      logger.error('[Cache] Failed to fetch NPM proxy hosts:', error);
+      // Continue without NPM data (fail silently)
+      return [];
+    }
+  }
+
+  /**
+   * Fetch containers of all environments, `concurrency` environments at a time
+   * Each request is aborted after the Dockhand request timeout, a failing
+   * environment is logged and skipped (it is missing from checkedEnvironmentIds
+   * and listed in failedEnvironments with its error)
+   */
+  private async fetchAllContainers(
+    client: DockhandClient,
+    environments: DockhandEnvironment[],
+    timings: RefreshTimings
+  ): Promise<{
+    containers: Array<{ container: DockhandContainer; env: DockhandEnvironment }>;
+    checkedEnvironmentIds: Set<number>;
+    failedEnvironments: Map<number, string>;
+  }> {
+    const results = await mapWithConcurrency(environments, this.concurrency, async env => {
+      const start = performance.now();
+      try {
+        const rawContainers = await client.fetchContainers(env.id);
+        timings.environments[env.name] = { durationMs: Math.round(performance.now() - start), containers: rawContainers.length };
+        return rawContainers;
+      } catch (error) {
+        timings.environments[env.name] = {
+          durationMs: Math.round(performance.now() - start),
+          error: error instanceof Error ? error.message : String(error),
+        };
+        throw error;
+      }
+    });
+
+    const containers: Array<{ container: DockhandContainer; env: DockhandEnvironment }> = [];
+    const checkedEnvironmentIds = new Set<number>();
+    const failedEnvironments = new Map<number, string>();
+
+    environments.forEach((env, index) => {
+      const result = results[index];
+      if (result.status === 'rejected') {
+        logger.error(`[Cache] Failed to fetch containers for env ${env.name}:`, result.reason);
+        failedEnvironments.set(env.id, result.reason instanceof Error ? result.reason.message : String(result.reason));
+        return; // Continue with other environments
+      }
+      for (const container of result.value.flatMap(expandIndexedLabels)) {
+        containers.push({ container, env });
+      }
+      checkedEnvironmentIds.add(env.id);
+    });
+
+    return { containers, checkedEnvironmentIds, failedEnvironments };
+  }
+
+  /**
+   * Environments of a targeted refresh, or null if all environments have to be refreshed
+   * (an environment is not known yet, or the previous refresh could not reach Dockhand)
+   */
+  private resolveTargetEnvironments(environmentIds?: number[]): DockhandEnvironment[] | null {
+    if (!environmentIds) {
+      return null;
+    }
+
+    if (this.consecutiveFailures > 0) {
+      logger.debug('[Cache] Previous refresh failed, refreshing all environments');
+      return null;
+    }
+
+    const environments: DockhandEnvironment[] = [];
+    for (const id of environmentIds) {
+      const entry = this.environmentCache.get(id);
+      if (!entry) {
+        logger.debug(`[Cache] Unknown environment ${id}, refreshing all environments`);
+        return null;
+      }
+      environments.push(entry.environment);
+    }
+    return environments;
+  }
+
+  /**
+   * Refresh cache from Dockhand API (and optionally NPM)
+   * This is the actual refresh logic (called by runQueuedRefresh and refreshImmediate)
+   * With environmentIds (webhook events) only those environments are fetched, the others
+   * keep their cached containers
+   * Duration of every phase is recorded in lastRefreshTimings (see getStats)
+   */
+  private async doRefresh(client: DockhandClient, environmentIds?: number[]): Promise<void> {
+    const previousContainers = this.get().containers;
+    const targetEnvironments = this.resolveTargetEnvironments(environmentIds);
+    const targetNames = targetEnvironments?.map(env => env.name).join(', ');
+    const timings: RefreshTimings = { startedAt: new Date().toISOString(), totalMs: 0, phases: {}, environments: {} };
+    if (targetEnvironments) {
+      timings.targetEnvironmentIds = targetEnvironments.map(env => env.id);
+    }
+    const refreshStart = performance.now();
+    let phaseStart = refreshStart;
+    const endPhase = (phase: string) => {
+      const now = performance.now();
+      timings.phases[phase] = Math.round(now - phaseStart);
+      phaseStart = now;
+    };
+
+    try {
+      logger.debug(targetEnvironments
+        ? `[Cache] Refreshing environment(s) ${targetNames} from Dockhand...`
+        : '[Cache] Refreshing cache from Dockhand...');
+
+      // Clear auto-created domains and monitors maps (will be rebuilt during this refresh)
+      if (targetEnvironments) {
+        this.forgetAutoCreated(targetEnvironments);
+      } else {
+        this.autoCreatedDomains.clear();
+        this.autoCreatedMonitors.clear();
       }
 
-      // 4. Auto-create NPM proxy hosts (if enabled)
+      // 1. Fetch NPM proxy hosts and certificates (if NPM client available) and environments in parallel
+      // A targeted refresh keeps the known environments
+      const [npmProxyHosts, npmCertificates, environments] = await Promise.all([
+        this.fetchNpmProxyHosts(),
+        this.fetchNpmCertificates(),
+        targetEnvironments ?? client.fetchEnvironments(),
+      ]);
+      endPhase('environments');
+
+      // 2. Fetch raw containers for all environments (concurrency-limited)
+      const { containers: allRawContainers, checkedEnvironmentIds, failedEnvironments } =
+        await this.fetchAllContainers(client, environments, timings);
+      endPhase('containers');
+
+      this.syncOwnedResources(allRawContainers);
+
+      // Bookmarks with "monitor": true are monitored like running containers (full refreshes only)
+      const monitoredContainers = targetEnvironments ? allRawContainers : [...allRawContainers, ...this.monitoredBookmarks];
+      if (!targetEnvironments) {
+        checkedEnvironmentIds.add(BOOKMARK_ENVIRONMENT.id);
+      }
+
+      // 3. Auto-create NPM proxy hosts (if enabled)
+      // Runs before monitor creation since monitors use the proxy host domain
       await this.autoCreateProxyHosts(allRawContainers, npmProxyHosts);
+      endPhase('proxyHosts');
+
+      // 4. Auto-create Peekaping monitors (if enabled)
+      await this.autoCreateMonitors(monitoredContainers, npmProxyHosts);
+      endPhase('monitors');
+
+      // 5. Clean up resources of removed containers and bookmarks (if enabled) and persist ownership
+      await this.cleanupOrphanedResources(monitoredContainers, checkedEnvironmentIds);
+      await this.stateStore.save();
+      endPhase('cleanup');
 
-      // 5. Auto-create Peekaping monitors (if enabled)
-      await this.autoCreateMonitors(allRawContainers, npmProxyHosts);
+      // 6. Fetch status of monitors belonging to containers and bookmarks
+      const monitorStatuses = await this.fetchMonitorStatuses(
+        targetEnvironments ? new Set(allRawContainers.map(item => item.container.id)) : undefined
+      );
+      if (!targetEnvironments) {
+        this.bookmarks = this.bookmarks.map(bookmark => {
+          const { monitor, ...rest } = bookmark;
+          const status = monitorStatuses.get(bookmark.id);
+          return status ? { ...rest, monitor: status } : rest;
+        });
+      }
+      endPhase('monitorStatus');
 
-      // 6. Process containers for display
+      // 7. Process containers for display
       const allContainers: ProcessedContainer[] = [];
 
       for (const item of allRawContainers) {
-        // Get auto-created domain for this container (if any)
-        const autoCreatedDomain = this.autoCreatedDomains.get(item.container.id);
+        // Get auto-created domain for this container (if any), falling back to persisted ownership
+        const autoCreatedDomain =
+          this.autoCreatedDomains.get(item.container.id) ??
+          this.stateStore.get(getOwnerKey(item.env.id, item.container.name))?.domain;
         
         // Pass NPM proxy hosts and auto-created domain to processContainer
-        const processed = processContainer(item.container, item.env, npmProxyHosts, autoCreatedDomain);
+        const processed = processContainer(item.container, item.env, npmProxyHosts, autoCreatedDomain, this.processOptions);
         if (processed) {
+          processed.monitor = monitorStatuses.get(item.container.id);
           allContainers.push(processed);
         }
       }
+      endPhase('process');
 
-      // Update cache atomically
+      // Update cache atomically (unreachable environments keep their last known containers)
+      this.updateEnvironmentCache(environments, allContainers, failedEnvironments, !targetEnvironments);
+      const containers = this.collectEnvironmentContainers();
       this.data = {
-        environments,
-        containers: allContainers,
+        environments: targetEnvironments ? this.data.environments : environments,
+        containers,
+        environmentStatus: this.getEnvironmentStatus(),
+        // Expiry of certificates used by proxied containers (last result is kept while NPM is unreachable)
+        certificateWarnings: npmCertificates
+          ? this.checkCertificates(npmCertificates, containers, npmProxyHosts)
+          : this.data.certificateWarnings,
         lastUpdate: new Date(),
         error: undefined,
       };
 
+      this.consecutiveFailures = 0;
+
       logger.info(
-        `[Cache] Refresh complete: ${allContainers.length} containers from ${environments.length} environments`
+        `[Cache] Refresh complete: ${allContainers.length} containers from ` +
+        (targetEnvironments ? `environment(s) ${targetNames}` : `${environments.length} environments`) +
+        ` in ${Math.round(performance.now() - refreshStart)}ms` +
+        (failedEnvironments.size > 0 ? ` (${failedEnvironments.size} environment(s) unreachable)` : '')
       );
     } catch (error) {
       logger.error('[Cache] Refresh failed:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Keep old data, every refreshed environment is stale now
+      const now = new Date();
+      const affected = targetEnvironments
+        ? targetEnvironments.map(env => this.environmentCache.get(env.id)!)
+        : [...this.environmentCache.values()];
+      for (const entry of affected) {
+        entry.staleSince ??= now;
+        entry.error = message;
+      }
+      this.data.containers = this.collectEnvironmentContainers();
+      this.data.environmentStatus = this.getEnvironmentStatus();
+      this.data.error = message;
+      this.data.lastUpdate = now;
+      this.consecutiveFailures++;
+    }
+
+    timings.totalMs = Math.round(performance.now() - refreshStart);
+    this.lastRefreshTimings = timings;
+    logger.debug(`[Cache] Refresh timings: ${Object.entries(timings.phases).map(([phase, ms]) => `${phase} ${ms}ms`).join(', ')}`);
 
-      // Update error but keep old data
-      this.data.error = error instanceof Error ? error.message : 'Unknown error';
-      this.data.lastUpdate = new Date();
+    // Every full refresh (webhook or periodic) restarts the polling interval
+    // Targeted refreshes don't, so missed events of other environments are still picked up
+    if (!targetEnvironments) {
+      this.schedulePoll();
     }
+    this.notifyUpdate(previousContainers);
   }
 
   /**
-   * Refresh cache with debouncing and locking
-   * If multiple refresh requests come in within 5 seconds, only the last one will be executed
+   * Drop auto-created domain and monitor entries of the containers of the given environments
+   * (they are rebuilt by a targeted refresh, entries of other environments are kept)
    */
-  async refresh(client: DockhandClient): Promise<void> {
-    this.pendingRefreshCount++;
-    
-    // Clear existing debounce timer
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
+  private forgetAutoCreated(environments: DockhandEnvironment[]): void {
+    for (const env of environments) {
+      for (const container of this.environmentCache.get(env.id)?.containers ?? []) {
+        this.autoCreatedDomains.delete(container.id);
+        this.autoCreatedMonitors.delete(container.id);
+      }
     }
+  }
 
-    logger.debug(`[Cache] Refresh request received (${this.pendingRefreshCount} pending)`);
+  /**
+   * Start periodic refreshes (DOCKHAND_POLL_INTERVAL)
+   * Also called when the Dockhand client is replaced on config reload
+   */
+  startPolling(client: DockhandClient): void {
+    this.pollClient = client;
+    this.schedulePoll();
+  }
 
-    // Set new debounce timer (5 seconds)
-    this.debounceTimer = setTimeout(async () => {
-      // Check if already refreshing
-      if (this.isRefreshing) {
-        logger.debug('[Cache] Refresh already in progress, skipping...');
-        this.pendingRefreshCount = 0;
-        return;
+  /**
+   * Stop periodic refreshes
+   */
+  stopPolling(): void {
+    this.pollClient = null;
+    this.schedulePoll();
+  }
+
+  /**
+   * (Re)schedule the next periodic refresh
+   * It goes through refresh() and therefore shares debouncing and the refresh lock with webhooks
+   */
+  private schedulePoll(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+      this.nextPollAt = null;
+    }
+
+    if (!this.pollClient || this.pollInterval <= 0) {
+      return;
+    }
+
+    const client = this.pollClient;
+    const delay = getPollDelay(this.pollInterval, this.pollMaxInterval, this.consecutiveFailures);
+    if (this.consecutiveFailures > 0) {
+      logger.warn(`[Cache] Dockhand unreachable (${this.consecutiveFailures} failed refresh(es)), retrying in ${delay}s`);
+    }
+
+    this.nextPollAt = new Date(Date.now() + delay * 1000);
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      logger.debug('[Cache] Periodic refresh');
+      this.refresh(client);
+    }, delay * 1000);
+  }
+
+  /**
+   * Store the containers of successfully fetched environments and mark failed ones as stale
+   * Environments that no longer exist in Dockhand are forgotten
+   * @param complete environments is the full list from Dockhand (false for targeted refreshes)
+   */
+  private updateEnvironmentCache(
+    environments: DockhandEnvironment[],
+    containers: ProcessedContainer[],
+    failedEnvironments: Map<number, string>,
+    complete: boolean = true
+  ): void {
+    const now = new Date();
+    const currentIds = new Set(environments.map(env => env.id));
+
+    for (const id of this.environmentCache.keys()) {
+      if (complete && !currentIds.has(id)) {
+        this.environmentCache.delete(id);
+      }
+    }
+
+    for (const environment of environments) {
+      const error = failedEnvironments.get(environment.id);
+
+      if (error === undefined) {
+        this.environmentCache.set(environment.id, {
+          environment,
+          containers: containers.filter(container => container.environment.id === environment.id),
+          lastSuccess: now,
+        });
+        continue;
+      }
+
+      const entry = this.environmentCache.get(environment.id) ?? { environment, containers: [] };
+      if (!entry.staleSince) {
+        logger.warn(`[Cache] Environment ${environment.name} is unreachable, keeping ${entry.containers.length} last known container(s)`);
       }
+      entry.environment = environment;
+      entry.staleSince ??= now;
+      entry.error = error;
+      this.environmentCache.set(environment.id, entry);
+    }
+  }
 
-      const requestCount = this.pendingRefreshCount;
-      this.pendingRefreshCount = 0;
+  /**
+   * Containers of all environments, cards of unreachable environments are marked stale
+   */
+  private collectEnvironmentContainers(): ProcessedContainer[] {
+    return [...this.environmentCache.values()].flatMap(entry =>
+      entry.staleSince ? entry.containers.map(container => ({ ...container, stale: true })) : entry.containers
+    );
+  }
+
+  /**
+   * Fetch state of every environment (for the dashboard banners and /health)
+   */
+  private getEnvironmentStatus(): EnvironmentStatus[] {
+    return [...this.environmentCache.values()].map(entry => ({
+      id: entry.environment.id,
+      name: entry.environment.name,
+      status: !entry.staleSince ? 'ok' : entry.lastSuccess ? 'stale' : 'offline',
+      lastSuccess: entry.lastSuccess,
+      staleSince: entry.staleSince,
+      error: entry.error,
+    }));
+  }
+
+  /**
+   * Apply the result of a bookmark health check (called by the bookmark prober)
+   * Dashboards are only notified when the bookmark goes up or down or the check result changes
+   * (e.g. "HTTP 200" → "HTTP 503")
+   */
+  setBookmarkHealth(bookmarkId: string, result: BookmarkCheckResult): void {
+    const index = this.bookmarks.findIndex(bookmark => bookmark.id === bookmarkId);
+    if (index === -1) {
+      return;
+    }
 
-      logger.info(`[Cache] Starting refresh (${requestCount} queued request(s))`);
+    const previousContainers = this.get().containers;
+    const bookmark = this.bookmarks[index];
+    const health = result.up ? 'healthy' : 'unhealthy';
+    const status = result.message;
+
+    if (bookmark.health !== health && bookmark.health !== 'starting') {
+      logger.info(`[Bookmarks] "${bookmark.displayName}" is ${result.up ? 'up' : 'down'} (${result.message})`);
+    }
+
+    if (bookmark.health === health && bookmark.status === status) {
+      return;
+    }
+
+    this.bookmarks[index] = { ...bookmark, health, status };
+    this.notifyUpdate(previousContainers);
+  }
+
+  /**
+   * Notify update listeners with the changes since the previous snapshot
+   */
+  private notifyUpdate(previousContainers: ProcessedContainer[]): void {
+    if (this.updateListeners.size === 0) {
+      return;
+    }
 
-      // Set lock
-      this.isRefreshing = true;
+    const data = this.get();
+    const diff = diffContainers(previousContainers, data.containers);
 
+    for (const listener of this.updateListeners) {
       try {
-        await this.doRefresh(client);
-      } finally {
-        // Release lock
-        this.isRefreshing = false;
+        listener(diff, data);
+      } catch (error) {
+        logger.error('[Cache] Update listener failed:', error);
       }
-    }, 5000);
+    }
+  }
+
+  /**
+   * Subscribe to cache updates (called after every refresh, successful or not)
+   * Returns a function that removes the listener again
+   */
+  onUpdate(listener: CacheUpdateListener): () => void {
+    this.updateListeners.add(listener);
+    return () => {
+      this.updateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Request a cache refresh (debounced and coalesced)
+   * Requests within 5 seconds are merged into one run. A request that arrives while a
+   * refresh is in flight is never dropped: exactly one follow-up run starts after it finishes.
+   * The merged run only fetches the named environments unless one request asked for all.
+   * @param environmentId Only refresh this environment (webhook event), omit to refresh all
+   * @returns "scheduled" if this request queued a new run, "coalesced" if it joined a queued one
+   */
+  refresh(client: DockhandClient, environmentId?: number): RefreshRequestResult {
+    this.pendingRefreshCount++;
+    this.queuedClient = client;
+    if (environmentId === undefined) {
+      this.queuedFullRefresh = true;
+    } else {
+      this.queuedEnvironmentIds.add(environmentId);
+    }
+
+    // Already waiting for the current refresh to finish
+    if (this.followUpQueued) {
+      logger.debug(`[Cache] Refresh request coalesced into follow-up run (${this.pendingRefreshCount} pending)`);
+      return { status: 'coalesced', pendingRequests: this.pendingRefreshCount };
+    }
+
+    // Restart the debounce window
+    const coalesced = this.debounceTimer !== null;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.runQueuedRefresh();
+    }, this.refreshDebounceMs);
+
+    logger.debug(`[Cache] Refresh request ${coalesced ? 'coalesced' : 'scheduled'} (${this.pendingRefreshCount} pending)`);
+    return { status: coalesced ? 'coalesced' : 'scheduled', pendingRequests: this.pendingRefreshCount };
+  }
+
+  /**
+   * Run the queued refresh, or defer it until the refresh in flight has finished
+   */
+  private async runQueuedRefresh(): Promise<void> {
+    if (this.isRefreshing) {
+      logger.debug('[Cache] Refresh already in progress, queueing follow-up run');
+      this.followUpQueued = true;
+      return;
+    }
+
+    const client = this.queuedClient!;
+    const requestCount = this.pendingRefreshCount;
+    const environmentIds = this.queuedFullRefresh ? undefined : [...this.queuedEnvironmentIds];
+    this.pendingRefreshCount = 0;
+    this.queuedClient = null;
+    this.queuedFullRefresh = false;
+    this.queuedEnvironmentIds.clear();
+
+    logger.info(
+      `[Cache] Starting refresh (${requestCount} queued request(s)` +
+      (environmentIds ? `, environment(s) ${environmentIds.join(', ')})` : ')')
+    );
+
+    // Set lock
+    this.isRefreshing = true;
+
+    try {
+      await this.doRefresh(client, environmentIds);
+    } catch (error) {
+      logger.error('[Cache] Refresh failed:', error);
+    } finally {
+      // Release lock
+      this.isRefreshing = false;
+    }
+
+    await this.runFollowUp();
+  }
+
+  /**
+   * Start the follow-up run queued while a refresh was in flight (if any)
+   */
+  private async runFollowUp(): Promise<void> {
+    if (this.followUpQueued) {
+      this.followUpQueued = false;
+      await this.runQueuedRefresh();
+    }
   }
 
   /**
@@ -800,6 +1784,8 @@ export class CacheManager {
     } finally {
       this.isRefreshing = false;
     }
+
+    await this.runFollowUp();
   }
 
   /**
@@ -822,6 +1808,24 @@ export class CacheManager {
       totalEnvironments: this.data.environments.length,
       lastUpdate: this.data.lastUpdate,
       hasError: !!this.data.error,
+      ownedResources: this.stateStore.size,
+      lastCleanupCount: this.lastCleanupReport.length,
+      liveClients: this.updateListeners.size,
+      lastRefresh: this.lastRefreshTimings,
+      environments: this.data.environmentStatus,
+      certificateWarnings: this.data.certificateWarnings,
+      polling: {
+        intervalSeconds: this.pollInterval,
+        nextRefreshAt: this.nextPollAt,
+        consecutiveFailures: this.consecutiveFailures,
+      },
     };
   }
+
+  /**
+   * Get resources handled (or, in dry-run mode, selected) by the last cleanup run
+   */
+  getCleanupReport(): CleanupReportEntry[] {
+    return this.lastCleanupReport;
+  }
 }
@@ -0,0 +1,364 @@
+/**
+ * Unit tests for configuration loading and validation
+ * Run with: bun test
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseConfig, loadConfig, ConfigError } from './config';
+
+/**
+ * Run parseConfig and return the reported issues (empty if valid)
+ */
+function issuesOf(fileData: unknown, env: Record<string, string>): string[] {
+  try {
+    parseConfig(fileData, env, 'config.yaml');
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    return (error as ConfigError).issues;
+  }
+}
+
+describe('parseConfig', () => {
+  const minimalEnv = { DOCKHAND_PASSWORD: 'secret' };
+
+  test('applies defaults with only required settings', () => {
+    const config = parseConfig(undefined, minimalEnv);
+
+    expect(config.server).toEqual({ port: 3001, stateFile: 'data/state.json', watchConfig: true, trustProxy: false, trustedProxies: [] });
+    expect(config.dockhand.username).toBe('admin');
+    expect(config.dashboard).toEqual({
+      restartWarningThreshold: 5,
+      showStopped: false,
+      preferredNetworks: ['dhcp-ext'],
+      bookmarks: [],
+      bookmarkCheckInterval: 60,
+    });
+    expect(config.cleanup).toEqual({ enabled: false, gracePeriodSeconds: 3600, action: 'disable', dryRun: false });
+    expect(config.npm).toBeNull();
+    expect(config.peekaping).toBeNull();
+    expect(config.webhook).toEqual({ rateLimit: 30, historySize: 50 });
+    expect(config.auth).toEqual({
+      mode: 'none',
+      users: [],
+      userHeader: 'Remote-User',
+      groupsHeader: 'Remote-Groups',
+      visibility: [],
+    });
+  });
+
+  test('reads settings from the config file', () => {
+    const config = parseConfig(
+      {
+        server: { port: 8080 },
+        dockhand: { url: 'http://dockhand:3000', password: 'from-file' },
+        npm: { url: 'http://npm:81', email: 'admin@example.com', password: 'pw', certificateId: 3, reconcile: true },
+        dashboard: { preferredNetworks: ['macvlan', 'dhcp-ext'] },
+      },
+      {}
+    );
+
+    expect(config.server.port).toBe(8080);
+    expect(config.dockhand.password).toBe('from-file');
+    expect(config.npm).toEqual({
+      url: 'http://npm:81',
+      email: 'admin@example.com',
+      password: 'pw',
+      certificateId: 3,
+      domains: [],
+      reconcile: true,
+      certificateWarningDays: 14,
+      requestCertificates: false,
+      certificateRequestLimit: 5,
+    });
+    expect(config.dashboard.preferredNetworks).toEqual(['macvlan', 'dhcp-ext']);
+  });
+
+  test('environment variables override the config file', () => {
+    const config = parseConfig(
+      { server: { port: 8080 }, dockhand: { password: 'from-file' } },
+      { PORT: '9090', DOCKHAND_PASSWORD: 'from-env', CLEANUP_ENABLED: 'true', CLEANUP_ACTION: 'delete' }
+    );
+
+    expect(config.server.port).toBe(9090);
+    expect(config.dockhand.password).toBe('from-env');
+    expect(config.cleanup.enabled).toBe(true);
+    expect(config.cleanup.action).toBe('delete');
+  });
+
+  test('parses lists from JSON arrays and comma-separated env vars', () => {
+    const config = parseConfig(undefined, {
+      ...minimalEnv,
+      PEEKAPING_URL: 'http://peekaping:8034',
+      PEEKAPING_API_KEY: 'key',
+      PEEKAPING_NOTIFICATION_IDS: '["a", "b"]',
+      PREFERRED_NETWORKS: 'macvlan, ipvlan',
+    });
+
+    expect(config.peekaping?.notificationIds).toEqual(['a', 'b']);
+    expect(config.dashboard.preferredNetworks).toEqual(['macvlan', 'ipvlan']);
+  });
+
+  test('parses bookmarks from env var', () => {
+    const config = parseConfig(undefined, {
+      ...minimalEnv,
+      BOOKMARKS: '[{"name":"Router","url":"http://192.168.1.1","group":"Network"}]',
+    });
+
+    expect(config.dashboard.bookmarks).toEqual([{ name: 'Router', url: 'http://192.168.1.1', group: 'Network' }]);
+  });
+
+  test('ignores empty environment variables', () => {
+    const config = parseConfig(undefined, { ...minimalEnv, PORT: '', NPM_URL: '' });
+    expect(config.server.port).toBe(3001);
+    expect(config.npm).toBeNull();
+  });
+
+  test('requires Dockhand password', () => {
+    const issues = issuesOf(undefined, {});
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toContain('DOCKHAND_PASSWORD');
+  });
+
+  test('reports invalid values with their source', () => {
+    const issues = issuesOf(
+      { cleanup: { gracePeriodSeconds: 'soon' } },
+      {
+        ...minimalEnv,
+        PORT: 'abc',
+        SHOW_STOPPED_CONTAINERS: 'maybe',
+        CLEANUP_ACTION: 'archive',
+        PEEKAPING_URL: 'http://peekaping:8034',
+        PEEKAPING_API_KEY: 'key',
+        PEEKAPING_NOTIFICATION_IDS: '[broken',
+      }
+    );
+
+    expect(issues).toEqual([
+      'PORT: expected an integer, got "abc"',
+      'SHOW_STOPPED_CONTAINERS: expected true or false, got "maybe"',
+      'PEEKAPING_NOTIFICATION_IDS: invalid JSON array',
+      'config.yaml: cleanup.gracePeriodSeconds: expected an integer, got "soon"',
+      'CLEANUP_ACTION: expected one of delete, disable, got "archive"',
+    ]);
+  });
+
+  test('reports out-of-range integers and invalid URLs', () => {
+    const issues = issuesOf(undefined, { ...minimalEnv, PORT: '70000', DOCKHAND_URL: 'dockhand:3000' });
+
+    expect(issues).toEqual([
+      'PORT: must be at most 65535, got 70000',
+      'DOCKHAND_URL: expected an http(s) URL, got "dockhand:3000"',
+    ]);
+  });
+
+  test('reports partially configured integrations', () => {
+    const issues = issuesOf(undefined, { ...minimalEnv, NPM_URL: 'http://npm:81', NPM_EMAIL: 'admin@example.com' });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toContain('npm.password (NPM_PASSWORD)');
+  });
+
+  test('reports integration settings without url', () => {
+    expect(issuesOf({ npm: { autoCreateDomain: 'example.com', certificateId: 1 } }, minimalEnv)).toEqual([
+      'npm.url (NPM_URL) is required when other npm settings are set, got npm.autoCreateDomain (NPM_AUTO_CREATE_DOMAIN), npm.certificateId (NPM_CERTIFICATE_ID)',
+    ]);
+    expect(issuesOf(undefined, { ...minimalEnv, PEEKAPING_DEFAULT_INTERVAL: '30' })).toEqual([
+      'peekaping.url (PEEKAPING_URL) is required when other peekaping settings are set, got peekaping.defaultInterval (PEEKAPING_DEFAULT_INTERVAL)',
+    ]);
+  });
+
+  test('reports unknown sections and keys', () => {
+    const issues = issuesOf({ nmp: {}, server: { prot: 80 } }, minimalEnv);
+
+    expect(issues).toEqual([
+      'config.yaml: unknown section "nmp"',
+      'config.yaml: unknown key "server.prot"',
+    ]);
+  });
+
+  test('reports invalid bookmark entries', () => {
+    const issues = issuesOf({ dashboard: { bookmarks: [{ name: 'No URL' }, 'oops'] } }, minimalEnv);
+
+    expect(issues).toEqual([
+      'config.yaml: dashboard.bookmarks: entry 0 is missing "url", entry 1 is not an object',
+    ]);
+  });
+
+  test('parses bookmark details and normalizes health checks', () => {
+    const config = parseConfig(
+      {
+        dashboard: {
+          bookmarks: [
+            { name: 'Router', url: 'http://192.168.1.1', description: 'Fritz!Box', tags: ['network'], check: 'http', monitor: true },
+            { name: 'NAS', url: 'https://nas.local', check: { type: 'tcp', target: 'nas.local:22' } },
+          ],
+        },
+      },
+      minimalEnv
+    );
+
+    expect(config.dashboard.bookmarks).toEqual([
+      { name: 'Router', url: 'http://192.168.1.1', description: 'Fritz!Box', tags: ['network'], check: { type: 'http' }, monitor: true },
+      { name: 'NAS', url: 'https://nas.local', check: { type: 'tcp', target: 'nas.local:22' } },
+    ]);
+  });
+
+  test('reports invalid bookmark details and health checks', () => {
+    const issues = issuesOf(
+      {
+        dashboard: {
+          bookmarks: [
+            { name: 'A', url: 'http://a.local', tags: 'network', monitor: 'yes' },
+            { name: 'B', url: 'http://b.local', check: 'ping' },
+            { name: 'C', url: 'http://c.local', check: { type: 'tcp', target: 'c.local' } },
+          ],
+        },
+      },
+      minimalEnv
+    );
+
+    expect(issues).toEqual([
+      'config.yaml: dashboard.bookmarks: entry 0: "tags" must be a list of strings, ' +
+        'entry 0: "monitor" must be true or false, ' +
+        'entry 1: "check" must be "http", "tcp" or {"type": ..., "target": ...}, ' +
+        'entry 2: "check.target" must be host:port or a URL, got "c.local"',
+    ]);
+  });
+
+  test('parses auth users and visibility rules', () => {
+    const config = parseConfig(
+      {
+        auth: {
+          mode: 'basic',
+          users: [{ username: 'alice', password: 'pw', groups: ['family'] }],
+          visibility: [{ userGroups: ['family'], environments: ['home'], groups: ['Media'] }],
+        },
+      },
+      { ...minimalEnv, AUTH_USERS: '[{"username":"bob","password":"$argon2id$v=19$..."}]' }
+    );
+
+    expect(config.auth.mode).toBe('basic');
+    expect(config.auth.users).toEqual([{ username: 'bob', password: '$argon2id$v=19$...' }]);
+    expect(config.auth.visibility).toEqual([{ userGroups: ['family'], environments: ['home'], groups: ['Media'] }]);
+  });
+
+  test('reports invalid auth settings', () => {
+    expect(issuesOf({ auth: { mode: 'basic' } }, minimalEnv)).toEqual([
+      'auth.users (AUTH_USERS) is required for auth.mode basic',
+    ]);
+    expect(issuesOf({}, { ...minimalEnv, AUTH_MODE: 'forward' })).toEqual([
+      'auth.mode forward requires server.trustProxy (TRUST_PROXY=true), the user headers are set by the proxy',
+      'auth.mode forward requires server.trustedProxies (TRUSTED_PROXIES), the user headers are only accepted from these addresses',
+    ]);
+    expect(issuesOf({}, { ...minimalEnv, AUTH_MODE: 'forward', TRUST_PROXY: 'true', TRUSTED_PROXIES: '172.18.0.0/16, proxy' })).toEqual([
+      'server.trustedProxies (TRUSTED_PROXIES): "proxy" is not an IP address or CIDR range',
+    ]);
+    expect(issuesOf(
+      {
+        auth: {
+          users: [{ username: 'alice', password: 'a' }, { username: 'alice' }],
+          visibility: [{ environment: ['home'] }, { groups: 'Media' }],
+        },
+      },
+      minimalEnv
+    )).toEqual([
+      'config.yaml: auth.users: entry 1 is missing "password", entry 1: duplicate username "alice"',
+      'config.yaml: auth.visibility: entry 0: unknown key "environment", entry 1: "groups" must be a list of strings',
+    ]);
+  });
+
+  test('parses NPM base domains', () => {
+    const npm = { url: 'http://npm:81', email: 'admin@example.com', password: 'pw', autoCreateDomain: 'example.com', certificateId: 1 };
+    const config = parseConfig(
+      { npm: { ...npm, domains: [{ domain: 'lab.example.com', certificateId: 2, environments: ['lab'] }] } },
+      minimalEnv
+    );
+
+    expect(config.npm?.domains).toEqual([{ domain: 'lab.example.com', certificateId: 2, environments: ['lab'] }]);
+  });
+
+  test('requires a Let\'s Encrypt email for certificate requests', () => {
+    const npm = { url: 'http://npm:81', email: 'admin@example.com', password: 'pw', requestCertificates: true };
+
+    expect(issuesOf({ npm }, minimalEnv)).toEqual([
+      'npm.letsEncryptEmail (NPM_LETSENCRYPT_EMAIL) is required for npm.requestCertificates',
+    ]);
+    expect(parseConfig({ npm: { ...npm, letsEncryptEmail: 'certs@example.com' } }, minimalEnv).npm?.requestCertificates).toBe(true);
+  });
+
+  test('reports invalid and conflicting NPM base domains', () => {
+    const npm = { url: 'http://npm:81', email: 'admin@example.com', password: 'pw', autoCreateDomain: 'example.com', certificateId: 1 };
+
+    expect(issuesOf({ npm: { ...npm, domains: [{ domain: 'a.de', certificateId: '2', env: ['lab'] }, {}] } }, minimalEnv)).toEqual([
+      'config.yaml: npm.domains: entry 0: unknown key "env", entry 0: "certificateId" must be a certificate ID, ' +
+        'entry 1 is missing "domain", entry 1: "certificateId" must be a certificate ID',
+    ]);
+    expect(issuesOf(
+      {
+        npm: {
+          ...npm,
+          domains: [
+            { domain: 'Example.com', certificateId: 2, environments: ['prod'] },
+            { domain: 'other.com', certificateId: 3 },
+            { domain: 'lab.example.com', certificateId: 4, environments: ['prod'] },
+          ],
+        },
+      },
+      minimalEnv
+    )).toEqual([
+      'npm.domains (NPM_DOMAINS): "example.com" is already set as npm.autoCreateDomain (NPM_AUTO_CREATE_DOMAIN)',
+      'npm: only one default domain (without environments) allowed, got example.com, other.com',
+      'npm.domains (NPM_DOMAINS): environment "prod" is mapped to Example.com and lab.example.com',
+    ]);
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tavern-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('loads YAML config file', async () => {
+    const filePath = join(dir, 'config.yaml');
+    await Bun.write(filePath, [
+      'dockhand:',
+      '  password: yaml-secret',
+      'dashboard:',
+      '  preferredNetworks:',
+      '    - macvlan',
+    ].join('\n'));
+
+    const config = await loadConfig({ CONFIG_FILE: filePath });
+    expect(config.dockhand.password).toBe('yaml-secret');
+    expect(config.dashboard.preferredNetworks).toEqual(['macvlan']);
+  });
+
+  test('loads JSON config file', async () => {
+    const filePath = join(dir, 'config.json');
+    await Bun.write(filePath, JSON.stringify({ dockhand: { password: 'json-secret' } }));
+
+    const config = await loadConfig({ CONFIG_FILE: filePath });
+    expect(config.dockhand.password).toBe('json-secret');
+  });
+
+  test('fails when explicitly configured file does not exist', async () => {
+    await expect(loadConfig({ CONFIG_FILE: join(dir, 'missing.yaml') })).rejects.toThrow(ConfigError);
+  });
+
+  test('fails on unparsable config file', async () => {
+    const filePath = join(dir, 'config.json');
+    await Bun.write(filePath, '{ not json');
+
+    await expect(loadConfig({ CONFIG_FILE: filePath })).rejects.toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,620 @@
+/**
+ * Configuration loader
+ * Reads an optional YAML/JSON config file, applies environment variable overrides
+ * and validates the result against SCHEMA, reporting all problems at once
+ */
+
+import type {
+  TavernConfig,
+  ServerConfig,
+  DockhandConfig,
+  DashboardConfig,
+  NpmConfig,
+  NpmDomainConfig,
+  PeekapingConfig,
+  CleanupOptions,
+  BookmarkConfig,
+  BookmarkCheck,
+  WebhookConfig,
+  AuthConfig,
+  AuthUserConfig,
+  VisibilityRule,
+} from './types';
+import { DEFAULT_PREFERRED_NETWORKS, parseIpRange, parseTcpTarget } from './utils';
+import { logger } from './logger';
+
+const DEFAULT_CONFIG_FILE = 'config.yaml';
+
+/**
+ * Thrown when the configuration is invalid
+ * Carries every problem found, not just the first one
+ */
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+type FieldSpec = { env?: string; required?: boolean } & (
+  | { type: 'string'; default?: string }
+  | { type: 'url'; default?: string }
+  | { type: 'integer'; default?: number; min?: number; max?: number }
+  | { type: 'boolean'; default: boolean }
+  | { type: 'enum'; values: string[]; default: string }
+  | { type: 'list'; default: string[] }
+  | { type: 'bookmarks' }
+  | { type: 'users' }
+  | { type: 'visibility' }
+  | { type: 'domains' }
+);
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Config schema: section → field → spec
+ * Keys are used as-is in the config file, env vars keep their established names
+ */
+const SCHEMA: Record<keyof TavernConfig, Record<string, FieldSpec>> = {
+  server: {
+    port: { type: 'integer', env: 'PORT', default: 3001, min: 1, max: 65535 },
+    stateFile: { type: 'string', env: 'STATE_FILE', default: 'data/state.json' },
+    watchConfig: { type: 'boolean', env: 'CONFIG_WATCH', default: true },
+    trustProxy: { type: 'boolean', env: 'TRUST_PROXY', default: false },
+    trustedProxies: { type: 'list', env: 'TRUSTED_PROXIES', default: [] },
+  },
+  dockhand: {
+    url: { type: 'url', env: 'DOCKHAND_URL', default: 'http://192.168.178.156:3000' },
+    username: { type: 'string', env: 'DOCKHAND_USERNAME', default: 'admin' },
+    password: { type: 'string', env: 'DOCKHAND_PASSWORD', required: true },
+    concurrency: { type: 'integer', env: 'DOCKHAND_CONCURRENCY', default: 4, min: 1, max: 32 },
+    requestTimeout: { type: 'integer', env: 'DOCKHAND_REQUEST_TIMEOUT', default: 10, min: 1 },
+    pollInterval: { type: 'integer', env: 'DOCKHAND_POLL_INTERVAL', default: 60, min: 0 },
+    pollMaxInterval: { type: 'integer', env: 'DOCKHAND_POLL_MAX_INTERVAL', default: 900, min: 1 },
+  },
+  dashboard: {
+    restartWarningThreshold: { type: 'integer', env: 'RESTART_WARNING_THRESHOLD', default: 5, min: 1 },
+    showStopped: { type: 'boolean', env: 'SHOW_STOPPED_CONTAINERS', default: false },
+    preferredNetworks: { type: 'list', env: 'PREFERRED_NETWORKS', default: DEFAULT_PREFERRED_NETWORKS },
+    bookmarks: { type: 'bookmarks', env: 'BOOKMARKS' },
+    bookmarkCheckInterval: { type: 'integer', env: 'BOOKMARK_CHECK_INTERVAL', default: 60, min: 5 },
+  },
+  npm: {
+    url: { type: 'url', env: 'NPM_URL' },
+    email: { type: 'string', env: 'NPM_EMAIL' },
+    password: { type: 'string', env: 'NPM_PASSWORD' },
+    autoCreateDomain: { type: 'string', env: 'NPM_AUTO_CREATE_DOMAIN' },
+    certificateId: { type: 'integer', env: 'NPM_CERTIFICATE_ID', min: 0 },
+    domains: { type: 'domains', env: 'NPM_DOMAINS' },
+    publicAccessListId: { type: 'integer', env: 'NPM_PUBLIC_ACCESS_LIST_ID', min: 0 },
+    defaultAccessListId: { type: 'integer', env: 'NPM_DEFAULT_ACCESS_LIST_ID', min: 0 },
+    reconcile: { type: 'boolean', env: 'NPM_RECONCILE', default: false },
+    certificateWarningDays: { type: 'integer', env: 'NPM_CERTIFICATE_WARNING_DAYS', default: 14, min: 1 },
+    requestCertificates: { type: 'boolean', env: 'NPM_REQUEST_CERTIFICATES', default: false },
+    letsEncryptEmail: { type: 'string', env: 'NPM_LETSENCRYPT_EMAIL' },
+    certificateRequestLimit: { type: 'integer', env: 'NPM_CERTIFICATE_REQUEST_LIMIT', default: 5, min: 1, max: 50 },
+  },
+  peekaping: {
+    url: { type: 'url', env: 'PEEKAPING_URL' },
+    apiKey: { type: 'string', env: 'PEEKAPING_API_KEY' },
+    notificationIds: { type: 'list', env: 'PEEKAPING_NOTIFICATION_IDS', default: [] },
+    defaultInterval: { type: 'integer', env: 'PEEKAPING_DEFAULT_INTERVAL', default: 60, min: 1 },
+    defaultTimeout: { type: 'integer', env: 'PEEKAPING_DEFAULT_TIMEOUT', default: 16, min: 1 },
+    defaultMaxRetries: { type: 'integer', env: 'PEEKAPING_DEFAULT_MAX_RETRIES', default: 3, min: 0 },
+  },
+  cleanup: {
+    enabled: { type: 'boolean', env: 'CLEANUP_ENABLED', default: false },
+    gracePeriodSeconds: { type: 'integer', env: 'CLEANUP_GRACE_PERIOD', default: 3600, min: 0 },
+    action: { type: 'enum', env: 'CLEANUP_ACTION', values: ['delete', 'disable'], default: 'disable' },
+    dryRun: { type: 'boolean', env: 'CLEANUP_DRY_RUN', default: false },
+  },
+  webhook: {
+    secret: { type: 'string', env: 'WEBHOOK_SECRET' },
+    rateLimit: { type: 'integer', env: 'WEBHOOK_RATE_LIMIT', default: 30, min: 0 },
+    historySize: { type: 'integer', env: 'WEBHOOK_HISTORY_SIZE', default: 50, min: 0, max: 1000 },
+  },
+  auth: {
+    mode: { type: 'enum', env: 'AUTH_MODE', values: ['none', 'basic', 'forward'], default: 'none' },
+    users: { type: 'users', env: 'AUTH_USERS' },
+    userHeader: { type: 'string', env: 'AUTH_USER_HEADER', default: 'Remote-User' },
+    groupsHeader: { type: 'string', env: 'AUTH_GROUPS_HEADER', default: 'Remote-Groups' },
+    visibility: { type: 'visibility', env: 'AUTH_VISIBILITY' },
+  },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a JSON array, or a comma-separated list, from an env var
+ */
+function parseListString(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      throw new Error('invalid JSON array');
+    }
+  }
+  return trimmed.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Parse a list of objects from a JSON env var or the config file
+ */
+function parseObjectList(value: unknown, what: string): unknown[] {
+  let entries = value;
+  if (typeof value === 'string') {
+    try {
+      entries = JSON.parse(value);
+    } catch {
+      throw new Error('invalid JSON');
+    }
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`expected a list of ${what}`);
+  }
+  return entries;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validate the health check of a bookmark entry
+ * Accepts "http", "tcp" or {"type":"tcp","target":"host:port"}, returns the normalized check
+ */
+function parseBookmarkCheck(value: unknown, url: unknown): { check?: BookmarkCheck; problem?: string } {
+  const check = typeof value === 'string' ? { type: value } : value;
+  if (!isObject(check) || (check.type !== 'http' && check.type !== 'tcp')) {
+    return { problem: '"check" must be "http", "tcp" or {"type": ..., "target": ...}' };
+  }
+
+  const target = check.target ?? url;
+  if (typeof target !== 'string') {
+    return { problem: '"check.target" must be a string' };
+  }
+  if (check.type === 'http' && !/^https?:\/\/[^/\s]+/i.test(target)) {
+    return { problem: `"check.target" must be an http(s) URL, got "${target}"` };
+  }
+  if (check.type === 'tcp' && !parseTcpTarget(target)) {
+    return { problem: `"check.target" must be host:port or a URL, got "${target}"` };
+  }
+
+  return { check: check.target === undefined ? { type: check.type } : { type: check.type, target } };
+}
+
+/**
+ * Validate bookmark entries
+ * Expected format: [{"name":"Foo","url":"https://example.com","icon":"optional","group":"optional",
+ *   "description":"optional","tags":["optional"],"check":"http|tcp","monitor":false}]
+ */
+function parseBookmarks(value: unknown): BookmarkConfig[] {
+  const entries = parseObjectList(value, 'bookmarks');
+  const problems: string[] = [];
+  const bookmarks = entries.map((entry, index) => {
+    if (!isObject(entry)) {
+      problems.push(`entry ${index} is not an object`);
+      return null;
+    }
+    for (const key of ['name', 'url']) {
+      if (typeof entry[key] !== 'string' || entry[key] === '') {
+        problems.push(`entry ${index} is missing "${key}"`);
+      }
+    }
+    for (const key of ['icon', 'group', 'description']) {
+      if (entry[key] !== undefined && typeof entry[key] !== 'string') {
+        problems.push(`entry ${index}: "${key}" must be a string`);
+      }
+    }
+    if (entry.tags !== undefined && !isStringList(entry.tags)) {
+      problems.push(`entry ${index}: "tags" must be a list of strings`);
+    }
+    if (entry.monitor !== undefined && typeof entry.monitor !== 'boolean') {
+      problems.push(`entry ${index}: "monitor" must be true or false`);
+    }
+    if (entry.check !== undefined) {
+      const { check, problem } = parseBookmarkCheck(entry.check, entry.url);
+      if (problem) {
+        problems.push(`entry ${index}: ${problem}`);
+      }
+      return { ...entry, check } as unknown as BookmarkConfig;
+    }
+    return entry as unknown as BookmarkConfig;
+  });
+
+  if (problems.length > 0) {
+    throw new Error(problems.join(', '));
+  }
+
+  return bookmarks as BookmarkConfig[];
+}
+
+/**
+ * Validate local dashboard users
+ * Expected format: [{"username":"alice","password":"plain or $argon2id$...","groups":["optional"]}]
+ */
+function parseAuthUsers(value: unknown): AuthUserConfig[] {
+  const entries = parseObjectList(value, 'users');
+  const problems: string[] = [];
+  const usernames = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    if (!isObject(entry)) {
+      problems.push(`entry ${index} is not an object`);
+      return;
+    }
+    for (const key of ['username', 'password']) {
+      if (typeof entry[key] !== 'string' || entry[key] === '') {
+        problems.push(`entry ${index} is missing "${key}"`);
+      }
+    }
+    if (entry.groups !== undefined && !isStringList(entry.groups)) {
+      problems.push(`entry ${index}: "groups" must be a list of strings`);
+    }
+    if (typeof entry.username === 'string' && usernames.has(entry.username)) {
+      problems.push(`entry ${index}: duplicate username "${entry.username}"`);
+    }
+    usernames.add(entry.username as string);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(problems.join(', '));
+  }
+
+  return entries as AuthUserConfig[];
+}
+
+/**
+ * Validate visibility rules
+ * Expected format: [{"users":[...],"userGroups":[...],"environments":[...],"groups":[...]}], every key optional
+ */
+function parseVisibilityRules(value: unknown): VisibilityRule[] {
+  const entries = parseObjectList(value, 'rules');
+  const problems: string[] = [];
+
+  entries.forEach((entry, index) => {
+    if (!isObject(entry)) {
+      problems.push(`entry ${index} is not an object`);
+      return;
+    }
+    for (const key of Object.keys(entry)) {
+      if (!['users', 'userGroups', 'environments', 'groups'].includes(key)) {
+        problems.push(`entry ${index}: unknown key "${key}"`);
+      } else if (!isStringList(entry[key])) {
+        problems.push(`entry ${index}: "${key}" must be a list of strings`);
+      }
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(problems.join(', '));
+  }
+
+  return entries as VisibilityRule[];
+}
+
+/**
+ * Validate NPM base domains
+ * Expected format: [{"domain":"home.example.com","certificateId":3,"environments":["optional"]}]
+ */
+function parseNpmDomains(value: unknown): NpmDomainConfig[] {
+  const entries = parseObjectList(value, 'domains');
+  const problems: string[] = [];
+  const domains = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    if (!isObject(entry)) {
+      problems.push(`entry ${index} is not an object`);
+      return;
+    }
+    for (const key of Object.keys(entry)) {
+      if (!['domain', 'certificateId', 'environments'].includes(key)) {
+        problems.push(`entry ${index}: unknown key "${key}"`);
+      }
+    }
+    if (typeof entry.domain !== 'string' || entry.domain === '') {
+      problems.push(`entry ${index} is missing "domain"`);
+    } else if (domains.has(entry.domain.toLowerCase())) {
+      problems.push(`entry ${index}: duplicate domain "${entry.domain}"`);
+    } else {
+      domains.add(entry.domain.toLowerCase());
+    }
+    if (typeof entry.certificateId !== 'number' || !Number.isInteger(entry.certificateId) || entry.certificateId < 0) {
+      problems.push(`entry ${index}: "certificateId" must be a certificate ID`);
+    }
+    if (entry.environments !== undefined && !isStringList(entry.environments)) {
+      problems.push(`entry ${index}: "environments" must be a list of strings`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(problems.join(', '));
+  }
+
+  return entries as NpmDomainConfig[];
+}
+
+/**
+ * Report base domains that compete for the same containers
+ * The legacy NPM_AUTO_CREATE_DOMAIN/NPM_CERTIFICATE_ID pair is the default domain
+ */
+function checkNpmDomains(npm: Record<string, unknown>, issues: string[]): void {
+  const domains = [...((npm.domains as NpmDomainConfig[] | undefined) ?? [])];
+  if (typeof npm.autoCreateDomain === 'string' && npm.certificateId !== undefined) {
+    const legacyDomain = npm.autoCreateDomain.toLowerCase();
+    if (domains.some(entry => entry.domain.toLowerCase() === legacyDomain)) {
+      issues.push(`npm.domains (NPM_DOMAINS): "${npm.autoCreateDomain}" is already set as npm.autoCreateDomain (NPM_AUTO_CREATE_DOMAIN)`);
+    }
+    domains.unshift({ domain: npm.autoCreateDomain, certificateId: npm.certificateId as number });
+  }
+
+  const defaults = domains.filter(entry => !entry.environments);
+  if (defaults.length > 1) {
+    issues.push(`npm: only one default domain (without environments) allowed, got ${defaults.map(entry => entry.domain).join(', ')}`);
+  }
+
+  const domainByEnvironment = new Map<string, string>();
+  for (const entry of domains) {
+    for (const environment of entry.environments ?? []) {
+      const other = domainByEnvironment.get(environment);
+      if (other !== undefined) {
+        issues.push(`npm.domains (NPM_DOMAINS): environment "${environment}" is mapped to ${other} and ${entry.domain}`);
+      }
+      domainByEnvironment.set(environment, entry.domain);
+    }
+  }
+}
+
+/**
+ * Convert a raw value (env string or file value) to the type of its spec
+ * Throws with a short description of what is wrong
+ */
+function coerce(spec: FieldSpec, value: unknown): unknown {
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error('expected a string');
+      }
+      return String(value);
+
+    case 'url': {
+      if (typeof value !== 'string' || !/^https?:\/\/[^/\s]+/i.test(value)) {
+        throw new Error(`expected an http(s) URL, got "${value}"`);
+      }
+      return value;
+    }
+
+    case 'integer': {
+      const parsed = typeof value === 'string' && /^\s*-?\d+\s*$/.test(value) ? parseInt(value, 10) : value;
+      if (typeof parsed !== 'number' || !Number.isInteger(parsed)) {
+        throw new Error(`expected an integer, got "${value}"`);
+      }
+      if (spec.min !== undefined && parsed < spec.min) {
+        throw new Error(`must be at least ${spec.min}, got ${parsed}`);
+      }
+      if (spec.max !== undefined && parsed > spec.max) {
+        throw new Error(`must be at most ${spec.max}, got ${parsed}`);
+      }
+      return parsed;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      const normalized = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) return true;
+      if (['false', '0', 'no'].includes(normalized)) return false;
+      throw new Error(`expected true or false, got "${value}"`);
+    }
+
+    case 'enum':
+      if (typeof value !== 'string' || !spec.values.includes(value)) {
+        throw new Error(`expected one of ${spec.values.join(', ')}, got "${value}"`);
+      }
+      return value;
+
+    case 'list': {
+      const list = typeof value === 'string' ? parseListString(value) : value;
+      if (!Array.isArray(list) || !list.every(item => typeof item === 'string' || typeof item === 'number')) {
+        throw new Error('expected a list of strings');
+      }
+      return list.map(item => String(item));
+    }
+
+    case 'bookmarks':
+      return parseBookmarks(value);
+
+    case 'users':
+      return parseAuthUsers(value);
+
+    case 'visibility':
+      return parseVisibilityRules(value);
+
+    case 'domains':
+      return parseNpmDomains(value);
+  }
+}
+
+/**
+ * Report integrations that are only partially configured
+ */
+function checkTogether(
+  sectionName: keyof TavernConfig,
+  section: Record<string, unknown>,
+  keys: string[],
+  issues: string[]
+): void {
+  const missing = keys.filter(key => section[key] === undefined);
+  if (missing.length > 0 && missing.length < keys.length) {
+    const names = missing.map(key => `${sectionName}.${key} (${SCHEMA[sectionName][key].env})`);
+    issues.push(`${sectionName}: ${keys.join(', ')} must be set together, missing ${names.join(', ')}`);
+  }
+}
+
+/**
+ * Report settings of an integration without url, the integration would be silently disabled
+ * Keys checked by checkTogether are left out, they are already reported there
+ */
+function checkUrlRequired(
+  sectionName: 'npm' | 'peekaping',
+  provided: Set<string>,
+  togetherKeys: string[],
+  issues: string[]
+): void {
+  if (provided.has('url')) {
+    return;
+  }
+  const ignored = [...provided].filter(key => !togetherKeys.includes(key));
+  if (ignored.length > 0) {
+    const names = ignored.map(key => `${sectionName}.${key} (${SCHEMA[sectionName][key].env})`);
+    issues.push(`${sectionName}.url (${SCHEMA[sectionName].url.env}) is required when other ${sectionName} settings are set, got ${names.join(', ')}`);
+  }
+}
+
+/**
+ * Build and validate the configuration from parsed file contents and env vars
+ * Environment variables take precedence over the file
+ * @param fileData Parsed config file (or undefined without file)
+ * @param source Name of the config file, used in error messages
+ */
+export function parseConfig(fileData: unknown, env: Env, source: string = 'config file'): TavernConfig {
+  const root = fileData ?? {};
+  if (!isObject(root)) {
+    throw new ConfigError([`${source}: expected a mapping of sections (${Object.keys(SCHEMA).join(', ')})`]);
+  }
+
+  const issues: string[] = [];
+  const values = {} as Record<keyof TavernConfig, Record<string, unknown>>;
+  const provided = {} as Record<keyof TavernConfig, Set<string>>; // Fields set in the file or env (not defaulted)
+
+  for (const key of Object.keys(root)) {
+    if (!(key in SCHEMA)) {
+      issues.push(`${source}: unknown section "${key}"`);
+    }
+  }
+
+  for (const [sectionName, fields] of Object.entries(SCHEMA) as [keyof TavernConfig, Record<string, FieldSpec>][]) {
+    const section = root[sectionName] ?? {};
+    values[sectionName] = {};
+    provided[sectionName] = new Set();
+
+    if (!isObject(section)) {
+      issues.push(`${source}: "${sectionName}" must be a mapping`);
+      continue;
+    }
+
+    for (const key of Object.keys(section)) {
+      if (!(key in fields)) {
+        issues.push(`${source}: unknown key "${sectionName}.${key}"`);
+      }
+    }
+
+    for (const [fieldName, spec] of Object.entries(fields)) {
+      const envValue = spec.env ? env[spec.env] : undefined;
+      const fromEnv = envValue !== undefined && envValue !== '';
+      const raw = fromEnv ? envValue : section[fieldName];
+
+      if (raw === undefined || raw === null || raw === '') {
+        if (spec.required) {
+          issues.push(`${sectionName}.${fieldName} is required (set ${spec.env} or ${sectionName}.${fieldName} in ${source})`);
+        } else if ('default' in spec && spec.default !== undefined) {
+          values[sectionName][fieldName] = Array.isArray(spec.default) ? [...spec.default] : spec.default;
+        }
+        continue;
+      }
+
+      provided[sectionName].add(fieldName);
+      try {
+        values[sectionName][fieldName] = coerce(spec, raw);
+      } catch (error) {
+        const location = fromEnv ? spec.env : `${source}: ${sectionName}.${fieldName}`;
+        issues.push(`${location}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  checkTogether('npm', values.npm, ['url', 'email', 'password'], issues);
+  checkUrlRequired('npm', provided.npm, ['url', 'email', 'password'], issues);
+  checkNpmDomains(values.npm, issues);
+  checkTogether('peekaping', values.peekaping, ['url', 'apiKey'], issues);
+  checkUrlRequired('peekaping', provided.peekaping, ['url', 'apiKey'], issues);
+
+  // Let's Encrypt needs an account email to issue certificates
+  if (values.npm.requestCertificates === true && !values.npm.letsEncryptEmail) {
+    issues.push('npm.letsEncryptEmail (NPM_LETSENCRYPT_EMAIL) is required for npm.requestCertificates');
+  }
+
+  // Without users basic auth would lock everyone out, forward auth headers can only be trusted behind a proxy
+  if (values.auth.mode === 'basic' && !(values.auth.users as AuthUserConfig[] | undefined)?.length) {
+    issues.push('auth.users (AUTH_USERS) is required for auth.mode basic');
+  }
+  for (const range of (values.server.trustedProxies as string[] | undefined) ?? []) {
+    if (!parseIpRange(range)) {
+      issues.push(`server.trustedProxies (TRUSTED_PROXIES): "${range}" is not an IP address or CIDR range`);
+    }
+  }
+  if (values.auth.mode === 'forward' && values.server.trustProxy !== true) {
+    issues.push('auth.mode forward requires server.trustProxy (TRUST_PROXY=true), the user headers are set by the proxy');
+  }
+  if (values.auth.mode === 'forward' && !(values.server.trustedProxies as string[] | undefined)?.length) {
+    issues.push('auth.mode forward requires server.trustedProxies (TRUSTED_PROXIES), the user headers are only accepted from these addresses');
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return {
+    server: values.server as unknown as ServerConfig,
+    dockhand: values.dockhand as unknown as DockhandConfig,
+    dashboard: { bookmarks: [], ...values.dashboard } as unknown as DashboardConfig,
+    npm: values.npm.url ? ({ domains: [], ...values.npm } as unknown as NpmConfig) : null,
+    peekaping: values.peekaping.url ? (values.peekaping as unknown as PeekapingConfig) : null,
+    cleanup: values.cleanup as unknown as CleanupOptions,
+    webhook: values.webhook as unknown as WebhookConfig,
+    auth: { users: [], visibility: [], ...values.auth } as unknown as AuthConfig,
+  };
+}
+
+/**
+ * Path of the config file (CONFIG_FILE, default: config.yaml)
+ */
+export function getConfigFilePath(env: Env = process.env): string {
+  return env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
+}
+
+/**
+ * Load configuration from CONFIG_FILE (default: config.yaml, optional) and env vars
+ * Files ending in .json are parsed as JSON, everything else as YAML
+ * Throws ConfigError if anything is invalid
+ */
+export async function loadConfig(env: Env = process.env): Promise<TavernConfig> {
+  const filePath = getConfigFilePath(env);
+  const file = Bun.file(filePath);
+  let fileData: unknown;
+
+  if (await file.exists()) {
+    const text = await file.text();
+    try {
+      fileData = filePath.endsWith('.json') ? JSON.parse(text) : Bun.YAML.parse(text);
+    } catch (error) {
+      throw new ConfigError([`${filePath}: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+    logger.info(`[Config] Loaded config file ${filePath}`);
+  } else if (env.CONFIG_FILE) {
+    throw new ConfigError([`CONFIG_FILE: ${filePath} does not exist`]);
+  } else {
+    logger.debug(`[Config] No config file at ${filePath}, using environment variables only`);
+  }
+
+  return parseConfig(fileData, env, filePath);
+}
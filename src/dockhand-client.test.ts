@@ -0,0 +1,74 @@
+/**
+ * Unit tests for Dockhand API Client
+ * Run with: bun test
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { DockhandClient } from './dockhand-client';
+
+describe('DockhandClient', () => {
+  const originalFetch = globalThis.fetch;
+  let client: DockhandClient;
+
+  beforeEach(() => {
+    client = new DockhandClient({
+      url: 'http://localhost:3000/',
+      username: 'admin',
+      password: 'secret',
+      concurrency: 4,
+      requestTimeout: 1,
+      pollInterval: 0,
+      pollMaxInterval: 900,
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('parallel requests share a single login', async () => {
+    const calls: string[] = [];
+    globalThis.fetch = mock(async (url: string) => {
+      calls.push(url);
+      if (url.endsWith('/api/auth/login')) {
+        await Bun.sleep(10);
+        return new Response('{}', { headers: { 'set-cookie': 'session=abc' } });
+      }
+      return Response.json([]);
+    }) as any;
+
+    await Promise.all([1, 2, 3].map(id => client.fetchContainers(id)));
+
+    expect(calls.filter(url => url.endsWith('/api/auth/login'))).toHaveLength(1);
+    expect(calls.filter(url => url.includes('/api/containers'))).toHaveLength(3);
+  });
+
+  test('re-authenticates once when parallel requests hit an expired session', async () => {
+    let logins = 0;
+    globalThis.fetch = mock(async (url: string, options: any) => {
+      if (url.endsWith('/api/auth/login')) {
+        logins++;
+        return new Response('{}', { headers: { 'set-cookie': `session=${logins}` } });
+      }
+      return options.headers.Cookie === 'session=1'
+        ? new Response('expired', { status: 401 })
+        : Response.json([]);
+    }) as any;
+
+    await client.fetchEnvironments();
+    await Promise.all([1, 2].map(id => client.fetchContainers(id)));
+
+    expect(logins).toBe(2);
+  });
+
+  test('aborts requests after the request timeout', async () => {
+    client['sessionCookie'] = 'session=abc';
+    globalThis.fetch = mock((_url: string, options: any) =>
+      new Promise((_, reject) => {
+        options.signal.addEventListener('abort', () => reject(options.signal.reason));
+      })
+    ) as any;
+
+    await expect(client.fetchContainers(1)).rejects.toThrow('Request timed out after 1s');
+  });
+});
@@ -3,25 +3,38 @@
  * Handles authentication and API requests to Dockhand
  */
 
-import type { DockhandEnvironment, DockhandContainer } from './types';
+import type { DockhandEnvironment, DockhandContainer, DockhandConfig } from './types';
 import { logger } from './logger';
 
 export class DockhandClient {
   private baseUrl: string;
   private username: string;
   private password: string;
+  private requestTimeoutMs: number;
   private sessionCookie: string | null = null;
+  private authentication: Promise<void> | null = null; // Login in progress, shared by parallel requests
 
-  constructor(baseUrl: string, username: string, password: string) {
-    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
-    this.username = username;
-    this.password = password;
+  constructor(config: DockhandConfig) {
+    this.baseUrl = config.url.replace(/\/$/, ''); // Remove trailing slash
+    this.username = config.username;
+    this.password = config.password;
+    this.requestTimeoutMs = config.requestTimeout * 1000;
   }
 
   /**
    * Authenticate with Dockhand and get session cookie
+   * Parallel callers share a single login request
    */
   private async authenticate(): Promise<void> {
+    if (!this.authentication) {
+      this.authentication = this.login().finally(() => {
+        this.authentication = null;
+      });
+    }
+    return this.authentication;
+  }
+
+  private async login(): Promise<void> {
     try {
       const response = await fetch(`${this.baseUrl}/api/auth/login`, {
         method: 'POST',
@@ -32,6 +45,7 @@ export class DockhandClient {
           username: this.username,
           password: this.password,
         }),
+        signal: AbortSignal.timeout(this.requestTimeoutMs),
       });
 
       if (!response.ok) {
@@ -67,21 +81,28 @@ export class DockhandClient {
     await this.ensureAuthenticated();
 
     try {
+      const sessionCookie = this.sessionCookie!;
       const response = await fetch(`${this.baseUrl}${path}`, {
         headers: {
-          Cookie: this.sessionCookie!,
+          Cookie: sessionCookie,
         },
+        signal: AbortSignal.timeout(this.requestTimeoutMs),
       });
 
       if (response.status === 401) {
-        // Session expired, re-authenticate and retry
-        this.sessionCookie = null;
-        await this.authenticate();
+        // Session expired, re-authenticate (unless a parallel request already did) and retry
+        if (this.sessionCookie === sessionCookie) {
+          this.sessionCookie = null;
+          await this.authenticate();
+        } else {
+          await this.ensureAuthenticated();
+        }
         
         const retryResponse = await fetch(`${this.baseUrl}${path}`, {
           headers: {
             Cookie: this.sessionCookie!,
           },
+          signal: AbortSignal.timeout(this.requestTimeoutMs),
         });
 
         if (!retryResponse.ok) {
@@ -97,6 +118,11 @@ export class DockhandClient {
 
       return response.json();
     } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        const timeoutError = new Error(`Request timed out after ${this.requestTimeoutMs / 1000}s`);
+        logger.error(`[Dockhand] API request error (${path}): ${timeoutError.message}`);
+        throw timeoutError;
+      }
       logger.error(`[Dockhand] API request error (${path}):`, error);
       throw error;
     }
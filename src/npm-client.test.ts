@@ -0,0 +1,208 @@
+/**
+ * Unit tests for NPM API Client
+ * Run with: bun test
+ */
+
+import { describe, test, expect, beforeEach, mock } from 'bun:test';
+import { NpmClient } from './npm-client';
+import type { NpmProxyHost } from './npm-types';
+
+describe('NpmClient', () => {
+  let client: NpmClient;
+  const baseUrl = 'http://localhost:81';
+
+  const proxyHost: NpmProxyHost = {
+    id: 7,
+    created_on: '2024-01-01T00:00:00Z',
+    modified_on: '2024-01-01T00:00:00Z',
+    owner_user_id: 1,
+    domain_names: ['app.example.com'],
+    forward_scheme: 'http',
+    forward_host: '192.168.1.200',
+    forward_port: 9090,
+    access_list_id: 2,
+    certificate_id: 1,
+    ssl_forced: true,
+    caching_enabled: false,
+    block_exploits: true,
+    advanced_config: '',
+    meta: {},
+    allow_websocket_upgrade: true,
+    http2_support: true,
+    hsts_enabled: true,
+    hsts_subdomains: false,
+    enabled: true,
+  };
+
+  beforeEach(() => {
+    client = new NpmClient({ url: baseUrl, email: 'admin@example.com', password: 'secret' });
+    // Skip authentication round-trip in tests
+    client['token'] = 'test-token';
+  });
+
+  describe('constructor', () => {
+    test('removes trailing slash from baseUrl', () => {
+      const clientWithSlash = new NpmClient({ url: 'http://localhost:81/', email: 'admin@example.com', password: 'secret' });
+      expect(clientWithSlash['baseUrl']).toBe('http://localhost:81');
+    });
+  });
+
+  describe('updateProxyHost', () => {
+    test('makes PUT request to /api/nginx/proxy-hosts/:id with partial data', async () => {
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:81/api/nginx/proxy-hosts/7');
+        expect(options.method).toBe('PUT');
+        expect(options.headers.Authorization).toBe('Bearer test-token');
+        expect(options.headers['Content-Type']).toBe('application/json');
+        expect(JSON.parse(options.body)).toEqual({ forward_host: '192.168.1.200', forward_port: 9090 });
+
+        return {
+          ok: true,
+          status: 200,
+          json: async () => proxyHost,
+        };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      const result = await client.updateProxyHost(7, { forward_host: '192.168.1.200', forward_port: 9090 });
+      expect(result).toEqual(proxyHost);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('re-authenticates and retries on 401', async () => {
+      let call = 0;
+      const mockFetch = mock(async (url: string, options: any) => {
+        call++;
+        if (call === 1) {
+          return { ok: false, status: 401 };
+        }
+        if (url.endsWith('/api/tokens')) {
+          return { ok: true, status: 200, json: async () => ({ token: 'fresh-token' }) };
+        }
+        expect(options.method).toBe('PUT');
+        expect(options.headers.Authorization).toBe('Bearer fresh-token');
+        return { ok: true, status: 200, json: async () => proxyHost };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      const result = await client.updateProxyHost(7, { forward_port: 9090 });
+      expect(result.id).toBe(7);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('throws error on failed request', async () => {
+      const mockFetch = mock(async () => ({
+        ok: false,
+        status: 404,
+      }));
+
+      globalThis.fetch = mockFetch as any;
+
+      await expect(client.updateProxyHost(99, { forward_port: 80 })).rejects.toThrow(
+        'NPM PUT request failed: 404'
+      );
+    });
+  });
+
+  describe('deleteProxyHost', () => {
+    test('makes DELETE request to /api/nginx/proxy-hosts/:id', async () => {
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:81/api/nginx/proxy-hosts/7');
+        expect(options.method).toBe('DELETE');
+        expect(options.body).toBeUndefined();
+        return { ok: true, status: 200, json: async () => true };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      expect(await client.deleteProxyHost(7)).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('throws error on failed request', async () => {
+      globalThis.fetch = mock(async () => ({ ok: false, status: 500 })) as any;
+
+      await expect(client.deleteProxyHost(7)).rejects.toThrow('NPM DELETE request failed: 500');
+    });
+  });
+
+  describe('fetchCertificates', () => {
+    test('makes GET request to /api/nginx/certificates', async () => {
+      const certificates = [{ id: 1, nice_name: 'Wildcard', domain_names: ['*.example.com'], expires_on: '2026-01-01 00:00:00' }];
+      const mockFetch = mock(async (url: string) => {
+        expect(url).toBe('http://localhost:81/api/nginx/certificates');
+        return { ok: true, status: 200, json: async () => certificates };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      expect(await client.fetchCertificates()).toEqual(certificates as any);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createCertificate', () => {
+    test('makes POST request to /api/nginx/certificates', async () => {
+      const request = {
+        provider: 'letsencrypt' as const,
+        nice_name: 'app.example.com',
+        domain_names: ['app.example.com'],
+        meta: { letsencrypt_email: 'certs@example.com', letsencrypt_agree: true, dns_challenge: false },
+      };
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:81/api/nginx/certificates');
+        expect(options.method).toBe('POST');
+        expect(JSON.parse(options.body)).toEqual(request);
+        return { ok: true, status: 201, json: async () => ({ id: 12, domain_names: request.domain_names }) };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      expect((await client.createCertificate(request)).id).toBe(12);
+    });
+  });
+
+  describe('fetchAccessLists', () => {
+    test('makes GET request to /api/nginx/access-lists', async () => {
+      const accessLists = [{ id: 3, name: 'Family', satisfy_any: false, pass_auth: false }];
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:81/api/nginx/access-lists');
+        expect(options.headers.Authorization).toBe('Bearer test-token');
+        return { ok: true, status: 200, json: async () => accessLists };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      expect(await client.fetchAccessLists()).toEqual(accessLists as any);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('disableProxyHost / enableProxyHost', () => {
+    test('makes POST request to /api/nginx/proxy-hosts/:id/disable', async () => {
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:81/api/nginx/proxy-hosts/7/disable');
+        expect(options.method).toBe('POST');
+        return { ok: true, status: 200, json: async () => true };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      expect(await client.disableProxyHost(7)).toBe(true);
+    });
+
+    test('makes POST request to /api/nginx/proxy-hosts/:id/enable', async () => {
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:81/api/nginx/proxy-hosts/7/enable');
+        expect(options.method).toBe('POST');
+        return { ok: true, status: 200, json: async () => true };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      expect(await client.enableProxyHost(7)).toBe(true);
+    });
+  });
+});
@@ -3,7 +3,8 @@
  * Handles authentication and API requests to NPM
  */
 
-import type { NpmProxyHost, NpmAuthResponse, NpmCreateProxyHostRequest, NpmCertificate } from './npm-types';
+import type { NpmProxyHost, NpmAuthResponse, NpmCreateProxyHostRequest, NpmCertificate, NpmCreateCertificateRequest, NpmAccessList } from './npm-types';
+import type { NpmConfig } from './types';
 import { logger } from './logger';
 
 export class NpmClient {
@@ -12,10 +13,10 @@ export class NpmClient {
   private password: string;
   private token: string | null = null;
 
-  constructor(baseUrl: string, email: string, password: string) {
-    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
-    this.email = email;
-    this.password = password;
+  constructor(config: Pick<NpmConfig, 'url' | 'email' | 'password'>) {
+    this.baseUrl = config.url.replace(/\/$/, ''); // Remove trailing slash
+    this.email = config.email;
+    this.password = config.password;
   }
 
   /**
@@ -101,11 +102,32 @@ export class NpmClient {
    * Make authenticated POST request to NPM API
    */
   private async postRequest<T>(path: string, body: any): Promise<T> {
+    return this.requestWithBody<T>('POST', path, body);
+  }
+
+  /**
+   * Make authenticated PUT request to NPM API
+   */
+  private async putRequest<T>(path: string, body: any): Promise<T> {
+    return this.requestWithBody<T>('PUT', path, body);
+  }
+
+  /**
+   * Make authenticated DELETE request to NPM API
+   */
+  private async deleteRequest<T>(path: string): Promise<T> {
+    return this.requestWithBody<T>('DELETE', path, undefined);
+  }
+
+  /**
+   * Make authenticated request with JSON body to NPM API
+   */
+  private async requestWithBody<T>(method: 'POST' | 'PUT' | 'DELETE', path: string, body: any): Promise<T> {
     await this.ensureAuthenticated();
 
     try {
       const response = await fetch(`${this.baseUrl}${path}`, {
-        method: 'POST',
+        method,
         headers: {
           Authorization: `Bearer ${this.token}`,
           'Content-Type': 'application/json',
@@ -119,7 +141,7 @@ export class NpmClient {
         await this.authenticate();
         
         const retryResponse = await fetch(`${this.baseUrl}${path}`, {
-          method: 'POST',
+          method,
           headers: {
             Authorization: `Bearer ${this.token}`,
             'Content-Type': 'application/json',
@@ -128,19 +150,19 @@ export class NpmClient {
         });
 
         if (!retryResponse.ok) {
-          throw new Error(`NPM POST request failed: ${retryResponse.status}`);
+          throw new Error(`NPM ${method} request failed: ${retryResponse.status}`);
         }
 
         return retryResponse.json();
       }
 
       if (!response.ok) {
-        throw new Error(`NPM POST request failed: ${response.status}`);
+        throw new Error(`NPM ${method} request failed: ${response.status}`);
       }
 
       return response.json();
     } catch (error) {
-      logger.error(`[NPM] API POST request error (${path}):`, error);
+      logger.error(`[NPM] API ${method} request error (${path}):`, error);
       throw error;
     }
   }
@@ -159,6 +181,57 @@ export class NpmClient {
     return this.postRequest<NpmProxyHost>('/api/nginx/proxy-hosts', data);
   }
 
+  /**
+   * Update an existing proxy host in NPM
+   * Only the provided fields are changed, everything else is kept as-is
+   */
+  async updateProxyHost(id: number, data: Partial<NpmCreateProxyHostRequest>): Promise<NpmProxyHost> {
+    return this.putRequest<NpmProxyHost>(`/api/nginx/proxy-hosts/${id}`, data);
+  }
+
+  /**
+   * Delete a proxy host from NPM
+   */
+  async deleteProxyHost(id: number): Promise<boolean> {
+    return this.deleteRequest<boolean>(`/api/nginx/proxy-hosts/${id}`);
+  }
+
+  /**
+   * Disable a proxy host in NPM (keeps the entry, stops serving it)
+   */
+  async disableProxyHost(id: number): Promise<boolean> {
+    return this.postRequest<boolean>(`/api/nginx/proxy-hosts/${id}/disable`, {});
+  }
+
+  /**
+   * Enable a previously disabled proxy host in NPM
+   */
+  async enableProxyHost(id: number): Promise<boolean> {
+    return this.postRequest<boolean>(`/api/nginx/proxy-hosts/${id}/enable`, {});
+  }
+
+  /**
+   * Fetch all access lists from NPM
+   */
+  async fetchAccessLists(): Promise<NpmAccessList[]> {
+    return this.request<NpmAccessList[]>('/api/nginx/access-lists');
+  }
+
+  /**
+   * Fetch all certificates from NPM
+   */
+  async fetchCertificates(): Promise<NpmCertificate[]> {
+    return this.request<NpmCertificate[]>('/api/nginx/certificates');
+  }
+
+  /**
+   * Request a new certificate in NPM
+   * For Let's Encrypt, NPM answers once issuance has finished (or failed)
+   */
+  async createCertificate(data: NpmCreateCertificateRequest): Promise<NpmCertificate> {
+    return this.postRequest<NpmCertificate>('/api/nginx/certificates', data);
+  }
+
   /**
    * Fetch certificate details by ID from NPM
    */
@@ -55,9 +55,41 @@ export interface NpmCreateProxyHostRequest {
   caching_enabled: boolean;          // Enable caching
   block_exploits: boolean;           // Block common exploits
   allow_websocket_upgrade: boolean;  // Allow websocket upgrade
+  advanced_config: string;           // Custom nginx configuration
   enabled: boolean;                  // Enable proxy host
 }
 
+// Per-container proxy host settings (dockhand-tavern.proxy.* labels)
+export type NpmProxySettings = Pick<
+  NpmCreateProxyHostRequest,
+  'forward_scheme' | 'allow_websocket_upgrade' | 'caching_enabled' | 'block_exploits' | 'hsts_enabled' | 'hsts_subdomains' | 'advanced_config'
+> & {
+  forward_port?: number;             // Overrides the resolved container port
+};
+
+export interface NpmAccessList {
+  id: number;
+  created_on: string;
+  modified_on: string;
+  owner_user_id: number;
+  name: string;                      // Display name, referenced by the dockhand-tavern.access label
+  satisfy_any: boolean;              // Any rule (instead of all) grants access
+  pass_auth: boolean;                // Pass the Authorization header to the upstream
+  proxy_host_count?: number;
+  meta: Record<string, any>;
+}
+
+export interface NpmCreateCertificateRequest {
+  provider: 'letsencrypt';
+  nice_name: string;                 // Display name
+  domain_names: string[];            // Domains to issue the certificate for
+  meta: {
+    letsencrypt_email: string;       // Let's Encrypt account email
+    letsencrypt_agree: boolean;      // Accept the Let's Encrypt terms of service
+    dns_challenge: boolean;          // false: HTTP-01 challenge served by NPM
+  };
+}
+
 export interface NpmCertificate {
   id: number;
   created_on: string;
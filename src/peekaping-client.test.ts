@@ -6,6 +6,7 @@
 import { describe, test, expect, beforeEach, mock } from 'bun:test';
 import { PeekapingClient } from './peekaping-client';
 import type { PeekapingMonitor, PeekapingCreateMonitorRequest, PeekapingTag, PeekapingCreateTagRequest } from './peekaping-types';
+import type { MonitorStatus } from './types';
 
 describe('PeekapingClient', () => {
   let client: PeekapingClient;
@@ -13,12 +14,12 @@ describe('PeekapingClient', () => {
   const apiKey = 'test-api-key-123';
 
   beforeEach(() => {
-    client = new PeekapingClient(baseUrl, apiKey);
+    client = new PeekapingClient({ url: baseUrl, apiKey });
   });
 
   describe('constructor', () => {
     test('removes trailing slash from baseUrl', () => {
-      const clientWithSlash = new PeekapingClient('http://localhost:8034/', apiKey);
+      const clientWithSlash = new PeekapingClient({ url: 'http://localhost:8034/', apiKey });
       expect(clientWithSlash['baseUrl']).toBe('http://localhost:8034');
     });
 
@@ -451,4 +452,122 @@ describe('PeekapingClient', () => {
       );
     });
   });
+
+  describe('updateMonitor', () => {
+    test('makes PATCH request to /api/v1/monitors/:id with partial data', async () => {
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:8034/api/v1/monitors/mon-123');
+        expect(options.method).toBe('PATCH');
+        expect(options.headers['X-API-Key']).toBe(apiKey);
+        expect(JSON.parse(options.body)).toEqual({ active: false });
+        return {
+          ok: true,
+          json: async () => ({ data: { id: 'mon-123', active: false } }),
+        };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      const result = await client.updateMonitor('mon-123', { active: false });
+      expect(result.active).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deleteMonitor', () => {
+    test('makes DELETE request to /api/v1/monitors/:id', async () => {
+      const mockFetch = mock(async (url: string, options: any) => {
+        expect(url).toBe('http://localhost:8034/api/v1/monitors/mon-123');
+        expect(options.method).toBe('DELETE');
+        expect(options.headers['X-API-Key']).toBe(apiKey);
+        return {
+          ok: true,
+          json: async () => ({ message: 'Monitor deleted' }),
+        };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      await client.deleteMonitor('mon-123');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('throws error on 404 not found', async () => {
+      globalThis.fetch = mock(async () => ({ ok: false, status: 404 })) as any;
+
+      await expect(client.deleteMonitor('missing')).rejects.toThrow(
+        'Peekaping DELETE request failed: 404'
+      );
+    });
+  });
+
+  describe('fetchMonitorStatus', () => {
+    const heartbeat = {
+      id: 'hb-1',
+      monitor_id: 'mon-123',
+      status: 1,
+      msg: 'OK',
+      ping: 42,
+      time: '2024-05-01T12:00:00Z',
+    };
+
+    test('fetches latest heartbeat and 24h uptime', async () => {
+      const mockFetch = mock(async (url: string) => {
+        if (url === 'http://localhost:8034/api/v1/monitors/mon-123/heartbeats?limit=1') {
+          return { ok: true, json: async () => ({ data: [heartbeat] }) };
+        }
+        expect(url).toBe('http://localhost:8034/api/v1/monitors/mon-123/stats/uptime');
+        return { ok: true, json: async () => ({ data: { '24h': 99.5, '7d': 98 } }) };
+      });
+
+      globalThis.fetch = mockFetch as any;
+
+      const status = await client.fetchMonitorStatus('mon-123');
+      expect(status).toEqual({
+        monitorId: 'mon-123',
+        status: 'up',
+        uptime24h: 99.5,
+        lastCheck: '2024-05-01T12:00:00Z',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('maps heartbeat status codes', async () => {
+      const expected: MonitorStatus['status'][] = ['down', 'up', 'pending', 'maintenance', 'unknown'];
+
+      for (let code = 0; code < expected.length; code++) {
+        globalThis.fetch = mock(async (url: string) => ({
+          ok: true,
+          json: async () => ({ data: url.includes('heartbeats') ? [{ ...heartbeat, status: code }] : {} }),
+        })) as any;
+
+        const status = await client.fetchMonitorStatus('mon-123');
+        expect(status.status).toBe(expected[code]);
+      }
+    });
+
+    test('reports unknown status when monitor has no heartbeats yet', async () => {
+      globalThis.fetch = mock(async () => ({
+        ok: true,
+        json: async () => ({ data: null }),
+      })) as any;
+
+      const status = await client.fetchMonitorStatus('mon-123');
+      expect(status.status).toBe('unknown');
+      expect(status.uptime24h).toBeUndefined();
+    });
+
+    test('keeps heartbeat status when uptime stats fail', async () => {
+      globalThis.fetch = mock(async (url: string) => {
+        if (url.includes('heartbeats')) {
+          return { ok: true, json: async () => ({ data: [{ ...heartbeat, status: 0 }] }) };
+        }
+        return { ok: false, status: 500 };
+      }) as any;
+
+      const status = await client.fetchMonitorStatus('mon-123');
+      expect(status.status).toBe('down');
+      expect(status.uptime24h).toBeUndefined();
+    });
+  });
 });
@@ -8,17 +8,20 @@ import type {
   PeekapingCreateMonitorRequest,
   PeekapingTag,
   PeekapingCreateTagRequest,
-  PeekapingApiResponse 
+  PeekapingApiResponse,
+  PeekapingHeartbeat,
+  PeekapingUptimeStats
 } from './peekaping-types';
+import type { MonitorStatus, PeekapingConfig } from './types';
 import { logger } from './logger';
 
 export class PeekapingClient {
   private baseUrl: string;
   private apiKey: string;
 
-  constructor(baseUrl: string, apiKey: string) {
-    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
-    this.apiKey = apiKey;
+  constructor(config: Pick<PeekapingConfig, 'url' | 'apiKey'>) {
+    this.baseUrl = config.url.replace(/\/$/, ''); // Remove trailing slash
+    this.apiKey = config.apiKey;
   }
 
   /**
@@ -54,9 +57,30 @@ export class PeekapingClient {
    * Make authenticated POST request to Peekaping API
    */
   private async postRequest<T>(path: string, body: any): Promise<T> {
+    return this.requestWithBody<T>('POST', path, body);
+  }
+
+  /**
+   * Make authenticated PATCH request to Peekaping API
+   */
+  private async patchRequest<T>(path: string, body: any): Promise<T> {
+    return this.requestWithBody<T>('PATCH', path, body);
+  }
+
+  /**
+   * Make authenticated DELETE request to Peekaping API
+   */
+  private async deleteRequest<T>(path: string): Promise<T> {
+    return this.requestWithBody<T>('DELETE', path, undefined);
+  }
+
+  /**
+   * Make authenticated request with JSON body to Peekaping API
+   */
+  private async requestWithBody<T>(method: 'POST' | 'PATCH' | 'DELETE', path: string, body: any): Promise<T> {
     try {
       const response = await fetch(`${this.baseUrl}${path}`, {
-        method: 'POST',
+        method,
         headers: {
           'X-API-Key': this.apiKey,
           'Content-Type': 'application/json',
@@ -65,13 +89,13 @@ export class PeekapingClient {
       });
 
       if (!response.ok) {
-        throw new Error(`Peekaping POST request failed: ${response.status}`);
+        throw new Error(`Peekaping ${method} request failed: ${response.status}`);
       }
 
       const data: PeekapingApiResponse<T> = await response.json();
       return data.data;
     } catch (error) {
-      logger.error(`[Peekaping] API POST request error (${path}):`, error);
+      logger.error(`[Peekaping] API ${method} request error (${path}):`, error);
       throw error;
     }
   }
@@ -91,6 +115,60 @@ export class PeekapingClient {
     return this.postRequest<PeekapingMonitor>('/api/v1/monitors', data);
   }
 
+  /**
+   * Update fields of an existing monitor in Peekaping
+   */
+  async updateMonitor(id: string, data: Partial<PeekapingCreateMonitorRequest>): Promise<PeekapingMonitor> {
+    return this.patchRequest<PeekapingMonitor>(`/api/v1/monitors/${id}`, data);
+  }
+
+  /**
+   * Delete a monitor from Peekaping
+   */
+  async deleteMonitor(id: string): Promise<void> {
+    await this.deleteRequest<unknown>(`/api/v1/monitors/${id}`);
+  }
+
+  /**
+   * Fetch latest heartbeats of a monitor (newest first)
+   */
+  async fetchMonitorHeartbeats(id: string, limit: number = 1): Promise<PeekapingHeartbeat[]> {
+    return this.request<PeekapingHeartbeat[]>(`/api/v1/monitors/${id}/heartbeats?limit=${limit}`);
+  }
+
+  /**
+   * Fetch uptime percentages of a monitor
+   */
+  async fetchMonitorUptime(id: string): Promise<PeekapingUptimeStats> {
+    return this.request<PeekapingUptimeStats>(`/api/v1/monitors/${id}/stats/uptime`);
+  }
+
+  /**
+   * Fetch current status and 24h uptime of a monitor
+   * Missing heartbeats or uptime stats are reported as unknown instead of failing
+   */
+  async fetchMonitorStatus(id: string): Promise<MonitorStatus> {
+    const [heartbeats, uptime] = await Promise.all([
+      this.fetchMonitorHeartbeats(id, 1).catch(() => [] as PeekapingHeartbeat[]),
+      this.fetchMonitorUptime(id).catch(() => ({}) as PeekapingUptimeStats),
+    ]);
+
+    const latest = Array.isArray(heartbeats) ? heartbeats[0] : undefined;
+    const statusNames: Record<number, MonitorStatus['status']> = {
+      0: 'down',
+      1: 'up',
+      2: 'pending',
+      3: 'maintenance',
+    };
+
+    return {
+      monitorId: id,
+      status: latest ? statusNames[latest.status] ?? 'unknown' : 'unknown',
+      uptime24h: typeof uptime['24h'] === 'number' ? uptime['24h'] : undefined,
+      lastCheck: latest?.time,
+    };
+  }
+
   /**
    * Fetch all tags from Peekaping
    */
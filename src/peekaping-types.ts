@@ -76,3 +76,19 @@ export interface PeekapingCreateTagRequest {
   color: string;                   // Required: hex color (e.g., "#3B82F6")
   description?: string;            // Optional: tag description
 }
+
+export interface PeekapingHeartbeat {
+  id: string;
+  monitor_id: string;
+  status: number;                  // 0 = down, 1 = up, 2 = pending, 3 = maintenance
+  msg: string;
+  ping: number;                    // Response time in ms
+  time: string;                    // ISO date string
+}
+
+export interface PeekapingUptimeStats {
+  '24h'?: number;                  // Uptime percentage (0-100)
+  '7d'?: number;
+  '30d'?: number;
+  '365d'?: number;
+}
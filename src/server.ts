@@ -8,147 +8,428 @@ import { DockhandClient } from './dockhand-client';
 import { NpmClient } from './npm-client';
 import { PeekapingClient } from './peekaping-client';
 import { CacheManager } from './cache';
-import { renderDashboard } from './template';
+import { StateStore } from './state-store';
+import { BookmarkProber } from './bookmark-prober';
+import { WebhookGuard, parseWebhookEvent, resolveClientIp } from './webhook';
+import { DashboardAuth, filterCacheData, filterDiff, type Viewer } from './auth';
+import { renderDashboard, renderLiveUpdate } from './template';
 import { logger } from './logger';
+import { loadConfig, getConfigFilePath, ConfigError } from './config';
+import type { TavernConfig, NpmConfig, PeekapingConfig, CleanupOptions, RefreshRequestResult, WebhookEvent } from './types';
+import { watch } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import type { Server } from 'bun';
 
-// Environment variables
-const DOCKHAND_URL = process.env.DOCKHAND_URL || 'http://192.168.178.156:3000';
-const DOCKHAND_USERNAME = process.env.DOCKHAND_USERNAME || 'admin';
-const DOCKHAND_PASSWORD = process.env.DOCKHAND_PASSWORD || '';
-const PORT = parseInt(process.env.PORT || '3001', 10);
-
-// NPM environment variables (optional)
-const NPM_URL = process.env.NPM_URL;
-const NPM_EMAIL = process.env.NPM_EMAIL;
-const NPM_PASSWORD = process.env.NPM_PASSWORD;
-
-// NPM auto-creation environment variables (optional)
-const NPM_AUTO_CREATE_DOMAIN = process.env.NPM_AUTO_CREATE_DOMAIN;
-const NPM_CERTIFICATE_ID = process.env.NPM_CERTIFICATE_ID ? parseInt(process.env.NPM_CERTIFICATE_ID, 10) : undefined;
-const NPM_PUBLIC_ACCESS_LIST_ID = process.env.NPM_PUBLIC_ACCESS_LIST_ID ? parseInt(process.env.NPM_PUBLIC_ACCESS_LIST_ID, 10) : undefined;
-const NPM_DEFAULT_ACCESS_LIST_ID = process.env.NPM_DEFAULT_ACCESS_LIST_ID ? parseInt(process.env.NPM_DEFAULT_ACCESS_LIST_ID, 10) : undefined;
-
-// Peekaping environment variables (optional)
-const PEEKAPING_URL = process.env.PEEKAPING_URL;
-const PEEKAPING_API_KEY = process.env.PEEKAPING_API_KEY;
-
-// Peekaping auto-creation environment variables (optional)
-const PEEKAPING_NOTIFICATION_IDS = process.env.PEEKAPING_NOTIFICATION_IDS 
-  ? JSON.parse(process.env.PEEKAPING_NOTIFICATION_IDS) 
-  : [];
-const PEEKAPING_DEFAULT_INTERVAL = process.env.PEEKAPING_DEFAULT_INTERVAL 
-  ? parseInt(process.env.PEEKAPING_DEFAULT_INTERVAL, 10) 
-  : 60;
-const PEEKAPING_DEFAULT_TIMEOUT = process.env.PEEKAPING_DEFAULT_TIMEOUT 
-  ? parseInt(process.env.PEEKAPING_DEFAULT_TIMEOUT, 10) 
-  : 16;
-const PEEKAPING_DEFAULT_MAX_RETRIES = process.env.PEEKAPING_DEFAULT_MAX_RETRIES 
-  ? parseInt(process.env.PEEKAPING_DEFAULT_MAX_RETRIES, 10) 
-  : 3;
-
-// Validate configuration
-if (!DOCKHAND_PASSWORD) {
-  logger.error('[Server] DOCKHAND_PASSWORD environment variable is required!');
-  process.exit(1);
+// Load and validate configuration (config file + environment variables)
+let config: TavernConfig;
+try {
+  config = await loadConfig();
+} catch (error) {
+  if (error instanceof ConfigError) {
+    logger.error('[Config] Invalid configuration:');
+    error.issues.forEach(issue => logger.error(`[Config]   ${issue}`));
+    process.exit(1);
+  }
+  throw error;
 }
 
+// Keep-alive comment interval for live update connections (below Bun's 10s idle timeout)
+const SSE_HEARTBEAT_MS = 5000;
+
+// Wait for a burst of config file writes to settle before reloading
+const CONFIG_WATCH_DEBOUNCE_MS = 1000;
+
 logger.info('[Server] Starting Dockhand Tavern');
-logger.info(`[Server]   Dockhand URL: ${DOCKHAND_URL}`);
-logger.info(`[Server]   Username: ${DOCKHAND_USERNAME}`);
-logger.info(`[Server]   Port: ${PORT}`);
-
-// Initialize NPM client if credentials provided
-let npmClient: NpmClient | undefined;
-if (NPM_URL && NPM_EMAIL && NPM_PASSWORD) {
-  logger.info(`[NPM]   URL: ${NPM_URL}`);
-  logger.info(`[NPM]   Email: ${NPM_EMAIL}`);
-  npmClient = new NpmClient(NPM_URL, NPM_EMAIL, NPM_PASSWORD);
+logger.info(`[Server]   Dockhand URL: ${config.dockhand.url}`);
+logger.info(`[Server]   Username: ${config.dockhand.username}`);
+logger.info(`[Server]   Port: ${config.server.port}`);
+
+/**
+ * Create NPM client and test the connection
+ * Returns undefined if NPM is not configured or (on startup) not reachable.
+ * On a reload the client is kept even if the test fails, so a short outage
+ * doesn't disable the integration until the next restart.
+ */
+async function createNpmClient(npm: NpmConfig | null, reloading = false): Promise<NpmClient | undefined> {
+  if (!npm) {
+    logger.info('[NPM] Integration disabled (credentials not provided)');
+    return undefined;
+  }
+
+  logger.info(`[NPM]   URL: ${npm.url}`);
+  logger.info(`[NPM]   Email: ${npm.email}`);
+  const npmClient = new NpmClient(npm);
   
   // Test NPM connection
+  let npmConnected = false;
   try {
-    const npmConnected = await npmClient.testConnection();
-    if (npmConnected) {
-      logger.info('[NPM] Connection successful');
-      
-      // Check if NPM auto-creation is enabled
-      if (NPM_AUTO_CREATE_DOMAIN && NPM_CERTIFICATE_ID !== undefined) {
-        // Note: Domain validation happens in CacheManager constructor
-        // Invalid domains will be rejected there with detailed error messages
-        logger.info('[NPM]   Auto-creation enabled');
-        logger.info(`[NPM]   Base domain: ${NPM_AUTO_CREATE_DOMAIN}`);
-        logger.info(`[NPM]   Certificate ID: ${NPM_CERTIFICATE_ID}`);
-        if (NPM_PUBLIC_ACCESS_LIST_ID) {
-          logger.info(`[NPM]   Public access list ID: ${NPM_PUBLIC_ACCESS_LIST_ID}`);
-        }
-        if (NPM_DEFAULT_ACCESS_LIST_ID) {
-          logger.info(`[NPM]   Default access list ID: ${NPM_DEFAULT_ACCESS_LIST_ID}`);
-        }
-        logger.info(`[NPM]   Domain format: {serviceName}.${NPM_AUTO_CREATE_DOMAIN}`);
-      } else {
-        logger.info('[NPM]   Auto-creation disabled (domain or certificate ID not provided)');
-      }
-    } else {
+    npmConnected = await npmClient.testConnection();
+    if (!npmConnected && !reloading) {
       logger.warn('[NPM] Connection failed - will continue without NPM integration');
-      npmClient = undefined;
+      return undefined;
     }
   } catch (error) {
     logger.warn('[NPM] Connection test failed:', error);
-    npmClient = undefined;
+    if (!reloading) {
+      return undefined;
+    }
   }
-} else {
-  logger.info('[NPM] Integration disabled (credentials not provided)');
+
+  if (npmConnected) {
+    logger.info('[NPM] Connection successful');
+  } else {
+    logger.warn('[NPM] Connection failed - keeping the integration enabled, requests are retried on the next refresh');
+  }
+      
+  // Check if NPM auto-creation is enabled
+  const hasDefaultDomain = !!npm.autoCreateDomain && npm.certificateId !== undefined;
+  if (hasDefaultDomain || npm.domains.length > 0) {
+    // Note: Domain validation happens in CacheManager.applyConfig
+    // Invalid domains will be rejected there with detailed error messages
+    logger.info('[NPM]   Auto-creation enabled');
+    if (hasDefaultDomain) {
+      logger.info(`[NPM]   Base domain: ${npm.autoCreateDomain}`);
+      logger.info(`[NPM]   Certificate ID: ${npm.certificateId}`);
+    }
+    for (const entry of npm.domains) {
+      const scope = entry.environments ? `environments: ${entry.environments.join(', ')}` : 'default';
+      logger.info(`[NPM]   Base domain: ${entry.domain} (certificate ID ${entry.certificateId}, ${scope})`);
+    }
+    if (npm.publicAccessListId) {
+      logger.info(`[NPM]   Public access list ID: ${npm.publicAccessListId}`);
+    }
+    if (npm.defaultAccessListId) {
+      logger.info(`[NPM]   Default access list ID: ${npm.defaultAccessListId}`);
+    }
+    logger.info('[NPM]   Domain format: {serviceName}.{baseDomain}');
+    logger.info(`[NPM]   Reconcile owned hosts: ${npm.reconcile ? 'enabled' : 'disabled'}`);
+    logger.info(`[NPM]   Certificate requests: ${npm.requestCertificates ? `enabled (max. ${npm.certificateRequestLimit} per 24 hours)` : 'disabled'}`);
+  } else {
+    logger.info('[NPM]   Auto-creation disabled (domain or certificate ID not provided)');
+  }
+
+  return npmClient;
 }
 
-// Initialize Peekaping client if credentials provided
-let peekapingClient: PeekapingClient | undefined;
-if (PEEKAPING_URL && PEEKAPING_API_KEY) {
-  logger.info(`[Peekaping]   URL: ${PEEKAPING_URL}`);
-  peekapingClient = new PeekapingClient(PEEKAPING_URL, PEEKAPING_API_KEY);
+/**
+ * Create Peekaping client and test the connection
+ * Returns undefined if Peekaping is not configured or (on startup) not reachable,
+ * see createNpmClient
+ */
+async function createPeekapingClient(peekaping: PeekapingConfig | null, reloading = false): Promise<PeekapingClient | undefined> {
+  if (!peekaping) {
+    logger.info('[Peekaping] Integration disabled (credentials not provided)');
+    return undefined;
+  }
+
+  logger.info(`[Peekaping]   URL: ${peekaping.url}`);
+  const peekapingClient = new PeekapingClient(peekaping);
   
   // Test Peekaping connection
+  let peekapingConnected = false;
   try {
-    const peekapingConnected = await peekapingClient.testConnection();
-    if (peekapingConnected) {
-      logger.info('[Peekaping] Connection successful');
-      
-      if (PEEKAPING_NOTIFICATION_IDS.length > 0) {
-        logger.info(`[Peekaping]   Notification IDs: ${PEEKAPING_NOTIFICATION_IDS.join(', ')}`);
-      } else {
-        logger.info('[Peekaping]   Notification IDs: none (monitors will have no notifications)');
-      }
-      logger.info(`[Peekaping]   Monitoring: ${PEEKAPING_DEFAULT_INTERVAL}s interval, ${PEEKAPING_DEFAULT_TIMEOUT}s timeout, ${PEEKAPING_DEFAULT_MAX_RETRIES} retries`);
-    } else {
+    peekapingConnected = await peekapingClient.testConnection();
+    if (!peekapingConnected && !reloading) {
       logger.warn('[Peekaping] Connection failed - will continue without Peekaping integration');
-      peekapingClient = undefined;
+      return undefined;
     }
   } catch (error) {
     logger.warn('[Peekaping] Connection test failed:', error);
-    peekapingClient = undefined;
+    if (!reloading) {
+      return undefined;
+    }
+  }
+
+  if (peekapingConnected) {
+    logger.info('[Peekaping] Connection successful');
+  } else {
+    logger.warn('[Peekaping] Connection failed - keeping the integration enabled, requests are retried on the next refresh');
+  }
+      
+  if (peekaping.notificationIds.length > 0) {
+    logger.info(`[Peekaping]   Notification IDs: ${peekaping.notificationIds.join(', ')}`);
+  } else {
+    logger.info('[Peekaping]   Notification IDs: none (monitors will have no notifications)');
+  }
+  logger.info(`[Peekaping]   Monitoring: ${peekaping.defaultInterval}s interval, ${peekaping.defaultTimeout}s timeout, ${peekaping.defaultMaxRetries} retries`);
+
+  return peekapingClient;
+}
+
+/**
+ * Log dashboard authentication settings
+ */
+function logAuth(): void {
+  const { auth } = config;
+  if (auth.mode === 'basic') {
+    logger.info(`[Auth] Basic auth with ${auth.users.length} local user(s)`);
+  } else if (auth.mode === 'forward') {
+    logger.info(`[Auth] Forward auth, user from ${auth.userHeader}, groups from ${auth.groupsHeader}, trusted proxies: ${config.server.trustedProxies.join(', ')}`);
+  } else {
+    logger.info('[Auth] Disabled (dashboard and API are public)');
+  }
+  if (auth.mode !== 'none' && auth.visibility.length > 0) {
+    logger.info(`[Auth]   ${auth.visibility.length} visibility rule(s)`);
+  }
+}
+
+/**
+ * Log cleanup settings
+ */
+function logCleanup(cleanup: CleanupOptions): void {
+  if (cleanup.enabled) {
+    logger.info(`[Cleanup] Enabled: ${cleanup.action} after ${cleanup.gracePeriodSeconds}s${cleanup.dryRun ? ' (dry run)' : ''}`);
+  } else {
+    logger.info('[Cleanup] Disabled (resources of removed containers are kept)');
   }
-} else {
-  logger.info('[Peekaping] Integration disabled (credentials not provided)');
 }
 
+let npmClient = await createNpmClient(config.npm);
+let peekapingClient = await createPeekapingClient(config.peekaping);
+logCleanup(config.cleanup);
+logAuth();
+
+// Load ownership of previously created resources
+const stateStore = new StateStore(config.server.stateFile);
+await stateStore.load();
+
 // Initialize Dockhand client and cache
-const client = new DockhandClient(DOCKHAND_URL, DOCKHAND_USERNAME, DOCKHAND_PASSWORD);
-const cache = new CacheManager(
-  npmClient,
-  NPM_AUTO_CREATE_DOMAIN,
-  NPM_CERTIFICATE_ID,
-  NPM_PUBLIC_ACCESS_LIST_ID,
-  NPM_DEFAULT_ACCESS_LIST_ID,
-  peekapingClient,
-  PEEKAPING_NOTIFICATION_IDS,
-  PEEKAPING_DEFAULT_INTERVAL,
-  PEEKAPING_DEFAULT_TIMEOUT,
-  PEEKAPING_DEFAULT_MAX_RETRIES
-);
+let client = new DockhandClient(config.dockhand);
+const cache = new CacheManager(config, { npmClient, peekapingClient, stateStore });
+
+// Authentication, rate limiting and history of webhook calls
+const webhookGuard = new WebhookGuard(config.webhook);
+
+// Optional login and per-user visibility for the dashboard and API
+const dashboardAuth = new DashboardAuth(config.auth, config.server.trustedProxies);
+
+// Open live update streams, closed when the auth settings change so clients reconnect with the new rules
+const liveStreams = new Set<() => void>();
+
+// Check bookmarks with a health check in the background
+const bookmarkProber = new BookmarkProber((bookmarkId, result) => cache.setBookmarkHealth(bookmarkId, result));
+
+/**
+ * Re-read configuration and apply it without restarting
+ * Only clients whose section changed are rebuilt (and re-tested). The served cache
+ * stays intact until the triggered refresh completes.
+ * Throws ConfigError (and keeps the current configuration) if the new one is invalid
+ */
+async function reloadConfig(): Promise<{ changed: string[]; restartRequired: string[] }> {
+  const newConfig = await loadConfig();
+  const sections = Object.keys(newConfig) as (keyof TavernConfig)[];
+  const changed = sections.filter(section => JSON.stringify(newConfig[section]) !== JSON.stringify(config[section]));
+
+  // Port and state file are only read on startup
+  const restartRequired = changed.includes('server') &&
+    (newConfig.server.port !== config.server.port || newConfig.server.stateFile !== config.server.stateFile)
+    ? ['server']
+    : [];
+  if (restartRequired.length > 0) {
+    logger.warn('[Config] Changes to server.port and server.stateFile take effect after a restart');
+    newConfig.server = { ...newConfig.server, port: config.server.port, stateFile: config.server.stateFile };
+  }
+
+  if (changed.includes('dockhand')) {
+    client = new DockhandClient(newConfig.dockhand);
+  }
+  if (changed.includes('npm')) {
+    npmClient = await createNpmClient(newConfig.npm, true);
+  }
+  if (changed.includes('peekaping')) {
+    peekapingClient = await createPeekapingClient(newConfig.peekaping, true);
+  }
+  if (changed.includes('cleanup')) {
+    logCleanup(newConfig.cleanup);
+  }
+
+  config = newConfig;
+  cache.applyConfig(config, { npmClient, peekapingClient });
+  if (changed.includes('dockhand')) {
+    cache.startPolling(client);
+  }
+  if (changed.includes('webhook')) {
+    webhookGuard.applyConfig(config.webhook);
+  }
+  if (changed.includes('auth') || changed.includes('server')) {
+    dashboardAuth.applyConfig(config.auth, config.server.trustedProxies);
+    if (liveStreams.size > 0) {
+      logger.info(`[Events] Closing ${liveStreams.size} live update connection(s) to apply the new auth settings`);
+      for (const closeStream of liveStreams) {
+        closeStream();
+      }
+    }
+  }
+  if (changed.includes('auth')) {
+    logAuth();
+  }
+  if (changed.includes('dashboard')) {
+    bookmarkProber.start(config.dashboard.bookmarks, config.dashboard.bookmarkCheckInterval);
+  }
+  logger.info(`[Config] Reloaded configuration (changed: ${changed.length > 0 ? changed.join(', ') : 'nothing'})`);
+
+  cache.refresh(client);
+
+  return { changed, restartRequired };
+}
+
+// Reloads are serialized so a file change and an API call can't interleave
+let reloadQueue: Promise<unknown> = Promise.resolve();
+function queueReload(): ReturnType<typeof reloadConfig> {
+  const result = reloadQueue.then(reloadConfig);
+  reloadQueue = result.catch(() => {});
+  return result;
+}
+
+// Reload automatically when the config file changes (editors often replace the file,
+// so the directory is watched instead of the file itself)
+const configFilePath = getConfigFilePath();
+if (config.server.watchConfig && await Bun.file(configFilePath).exists()) {
+  let watchTimer: Timer | null = null;
+  watch(dirname(resolve(configFilePath)), (_event, filename) => {
+    if (filename !== basename(configFilePath)) {
+      return;
+    }
+    if (watchTimer) {
+      clearTimeout(watchTimer);
+    }
+    watchTimer = setTimeout(() => {
+      logger.info(`[Config] ${configFilePath} changed, reloading...`);
+      queueReload().catch((error) => {
+        if (error instanceof ConfigError) {
+          logger.error('[Config] Keeping current configuration, new one is invalid:');
+          error.issues.forEach(issue => logger.error(`[Config]   ${issue}`));
+        } else {
+          logger.error('[Config] Reload failed:', error);
+        }
+      });
+    }, CONFIG_WATCH_DEBOUNCE_MS);
+  });
+  logger.info(`[Config] Watching ${configFilePath} for changes`);
+}
 
 // Initial cache population
 logger.info('[Cache] Populating initial cache...');
 await cache.refreshImmediate(client);
 const stats = cache.getStats();
 logger.info(`[Cache] Initial cache populated (${stats.totalContainers} containers, ${stats.totalEnvironments} environments)`);
+bookmarkProber.start(config.dashboard.bookmarks, config.dashboard.bookmarkCheckInterval);
+
+// Refresh periodically in addition to webhooks (catches missed events)
+if (config.dockhand.pollInterval > 0) {
+  logger.info(`[Cache] Refreshing every ${config.dockhand.pollInterval}s (backing off up to ${config.dockhand.pollMaxInterval}s while Dockhand is unreachable)`);
+} else {
+  logger.info('[Cache] Periodic refresh disabled, relying on webhooks');
+}
+cache.startPolling(client);
+
+if (config.webhook.secret) {
+  logger.info('[Webhook] Requiring HMAC signature or token');
+} else {
+  logger.warn('[Webhook] No WEBHOOK_SECRET set, webhook calls are not authenticated');
+}
+
+/**
+ * Address of the direct connection (the proxy when behind one)
+ */
+function getPeerIp(request: Request, server: Server<unknown> | null): string {
+  return server?.requestIP(request)?.address.replace(/^::ffff:/, '') ?? 'unknown';
+}
+
+/**
+ * Client IP of a request (X-Forwarded-For entry appended by the proxy if TRUST_PROXY is set)
+ */
+function getClientIp(request: Request, server: Server<unknown> | null): string {
+  return resolveClientIp(request.headers.get('x-forwarded-for'), getPeerIp(request, server), config.server.trustProxy);
+}
+
+/**
+ * Authenticate a dashboard or API request
+ * Returns the viewer, or the 401/403 response to send instead
+ * @param requireUnrestricted Only allow users that see everything (admin endpoints)
+ */
+async function authorize(
+  request: Request,
+  server: Server<unknown> | null,
+  requireUnrestricted: boolean = false
+): Promise<Viewer | Response> {
+  const result = await dashboardAuth.authenticate(request.headers, getClientIp(request, server), getPeerIp(request, server));
+
+  if (!result.ok) {
+    return new Response(`401 - ${result.reason}`, {
+      status: 401,
+      headers: {
+        'Content-Type': 'text/plain',
+        ...(result.challenge ? { 'WWW-Authenticate': 'Basic realm="Dockhand Tavern", charset="UTF-8"' } : {}),
+      },
+    });
+  }
+
+  if (requireUnrestricted && !result.viewer.unrestricted) {
+    return new Response('403 - Not allowed for users with limited visibility', {
+      status: 403,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+
+  return result.viewer;
+}
+
+/**
+ * Response of the webhook endpoints, tells the caller whether the request
+ * queued a new refresh or was merged into one that is already queued
+ */
+function webhookResponse(result: RefreshRequestResult, event: WebhookEvent | null) {
+  const message = result.status === 'scheduled'
+    ? 'Webhook received, refresh scheduled'
+    : `Webhook received, coalesced with ${result.pendingRequests - 1} earlier request(s) into the queued refresh`;
+  logger.debug(`[Webhook]   ${message}`);
+  return {
+    status: 'ok',
+    refresh: result.status,
+    pendingRequests: result.pendingRequests,
+    scope: event ? { environmentId: event.environmentId } : 'all',
+    message,
+  };
+}
+
+/**
+ * Verify a webhook call (rate limit, signature or token) and queue a refresh
+ */
+async function handleWebhook({ request, server, set }: {
+  request: Request;
+  server: Server<unknown> | null;
+  set: { status?: number | string; headers: Record<string, string | number> };
+}) {
+  const ip = getClientIp(request, server);
+  const rawBody = request.method === 'POST' ? await request.text() : '';
+  const token = new URL(request.url).searchParams.get('token');
+
+  const verification = webhookGuard.verify(ip, rawBody, request.headers, token);
+  if (!verification.ok) {
+    set.status = verification.status;
+    if (verification.retryAfter !== undefined) {
+      set.headers['retry-after'] = String(verification.retryAfter);
+    }
+    return { status: 'error', message: verification.reason };
+  }
+
+  logger.info(`[Webhook] Received ${request.method} request from ${ip}`);
+  if (rawBody) {
+    logger.debug('[Webhook]   Body:', rawBody);
+  }
+
+  // Events naming an environment only refresh that environment, anything else refreshes all
+  const event = parseWebhookEvent(rawBody);
+  if (event) {
+    logger.debug(`[Webhook]   Event ${event.event ?? 'unknown'} in environment ${event.environmentId}${event.containerId ? ` (container ${event.containerId})` : ''}`);
+  }
+
+  // Trigger debounced cache refresh (non-blocking) and respond immediately
+  const result = cache.refresh(client, event?.environmentId);
+  webhookGuard.record(ip, request.method, verification.auth, result, event);
+  return webhookResponse(result, event);
+}
 
 // Create Elysia app
 const app = new Elysia()
@@ -157,14 +438,21 @@ const app = new Elysia()
   .get('/app.js', () => Bun.file('public/app.js'))
 
   // Main dashboard endpoint
-  .get('/', ({ query }) => {
+  .get('/', async ({ query, request, server }) => {
+    const viewer = await authorize(request, server);
+    if (viewer instanceof Response) {
+      return viewer;
+    }
+
     const filters = {
       search: query.search as string | undefined,
       stack: query.stack as string | undefined,
       env: query.env as string | undefined,
+      unhealthy: query.unhealthy === '1',
+      hideStopped: query.stopped === '0',
     };
 
-    const html = renderDashboard(cache.get(), filters, DOCKHAND_URL);
+    const html = renderDashboard(filterCacheData(cache.get(), viewer), filters, config.dockhand.url, viewer.user);
 
     return new Response(html, {
       headers: {
@@ -174,46 +462,129 @@ const app = new Elysia()
   })
 
   // Webhook endpoint (non-blocking) - accepts both GET and POST
-  .post('/webhook', async ({ body }) => {
-    logger.info('[Webhook] Received POST request');
-    logger.debug('[Webhook]   Body:', body);
-
-    // Trigger debounced cache refresh (non-blocking)
-    cache.refresh(client).catch((error) => {
-      logger.error('[Webhook] Cache refresh failed:', error);
-    });
+  // The body is read raw so HMAC signatures can be verified
+  .post('/webhook', handleWebhook, { parse: 'none' })
+  .get('/webhook', handleWebhook)
 
-    // Respond immediately
-    return { status: 'ok', message: 'Webhook received, refresh queued' };
-  })
-
-  .get('/webhook', async () => {
-    logger.info('[Webhook] Received GET request');
-
-    // Trigger debounced cache refresh (non-blocking)
-    cache.refresh(client).catch((error) => {
-      logger.error('[Webhook] Cache refresh failed:', error);
-    });
-
-    // Respond immediately
-    return { status: 'ok', message: 'Webhook received, refresh queued' };
+  // Accepted webhook calls (newest first) and number of rejected calls
+  .get('/api/webhooks', async ({ request, server }) => {
+    const viewer = await authorize(request, server, true);
+    return viewer instanceof Response ? viewer : webhookGuard.getHistory();
   })
 
   // Health check endpoint
-  .get('/health', () => {
-    const stats = cache.getStats();
+  // Stays reachable without login (container health checks), cache details need a user that sees everything
+  .get('/health', async ({ request, server }) => {
+    const viewer = dashboardAuth.enabled
+      ? await dashboardAuth.authenticate(request.headers, getClientIp(request, server), getPeerIp(request, server))
+      : null;
+    const showDetails = !viewer || (viewer.ok && viewer.viewer.unrestricted);
 
     return {
       status: 'healthy',
       uptime: process.uptime(),
-      cache: stats,
+      ...(showDetails ? { cache: cache.getStats() } : {}),
       timestamp: new Date().toISOString(),
     };
   })
 
-  // API endpoint to get current cache data (for debugging)
-  .get('/api/cache', () => {
-    return cache.get();
+  // Live dashboard updates (Server-Sent Events), pushed after every cache refresh
+  .get('/api/events', async ({ request, server }) => {
+    const viewer = await authorize(request, server);
+    if (viewer instanceof Response) {
+      return viewer;
+    }
+
+    const encoder = new TextEncoder();
+    let unsubscribe = () => {};
+    let heartbeat: Timer | null = null;
+    let closeStream = () => {};
+
+    const close = () => {
+      liveStreams.delete(closeStream);
+      unsubscribe();
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+    };
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            close(); // Client is gone
+          }
+        };
+
+        send('retry: 5000\n\n');
+        unsubscribe = cache.onUpdate((diff, data) => {
+          const update = renderLiveUpdate(filterDiff(diff, viewer), filterCacheData(data, viewer));
+          send(`event: update\ndata: ${JSON.stringify(update)}\n\n`);
+        });
+        heartbeat = setInterval(() => send(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+        // The client reconnects on its own and is authorized again
+        closeStream = () => {
+          close();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        };
+        liveStreams.add(closeStream);
+        logger.debug('[Events] Live update client connected');
+      },
+      cancel() {
+        close();
+        logger.debug('[Events] Live update client disconnected');
+      },
+    });
+
+    request.signal.addEventListener('abort', close);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  })
+
+  // API endpoint to get current cache data (for debugging), limited to what the user may see
+  .get('/api/cache', async ({ request, server }) => {
+    const viewer = await authorize(request, server);
+    return viewer instanceof Response ? viewer : filterCacheData(cache.get(), viewer);
+  })
+
+  // Re-read configuration and bookmarks without restarting
+  .post('/api/reload', async ({ request, server, set }) => {
+    const viewer = await authorize(request, server, true);
+    if (viewer instanceof Response) {
+      return viewer;
+    }
+
+    logger.info('[Config] Reload requested via API');
+    try {
+      const result = await queueReload();
+      return { status: 'ok', ...result };
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        error.issues.forEach(issue => logger.error(`[Config]   ${issue}`));
+        set.status = 400;
+        return { status: 'error', message: 'Invalid configuration, keeping current one', issues: error.issues };
+      }
+      throw error;
+    }
+  })
+
+  // API endpoint to see what the last cleanup run removed (or would remove in dry-run mode)
+  .get('/api/cleanup', async ({ request, server }) => {
+    const viewer = await authorize(request, server, true);
+    return viewer instanceof Response ? viewer : cache.getCleanupReport();
   })
 
   // 404 handler
@@ -233,9 +604,12 @@ const app = new Elysia()
   })
 
   // Start server
-  .listen(PORT);
+  .listen(config.server.port);
 
-logger.info(`[Server] Dockhand Tavern is running at http://localhost:${PORT}`);
-logger.info(`[Server]   Dashboard: http://localhost:${PORT}`);
-logger.info(`[Server]   Health: http://localhost:${PORT}/health`);
-logger.info(`[Server]   Webhook: http://localhost:${PORT}/webhook (GET or POST)`);
+logger.info(`[Server] Dockhand Tavern is running at http://localhost:${config.server.port}`);
+logger.info(`[Server]   Dashboard: http://localhost:${config.server.port}`);
+logger.info(`[Server]   Health: http://localhost:${config.server.port}/health`);
+logger.info(`[Server]   Webhook: http://localhost:${config.server.port}/webhook (GET or POST)`);
+logger.info(`[Server]   Webhook history: http://localhost:${config.server.port}/api/webhooks`);
+logger.info(`[Server]   Live updates: http://localhost:${config.server.port}/api/events`);
+logger.info(`[Server]   Reload config: POST http://localhost:${config.server.port}/api/reload`);
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the ownership state store
+ * Run with: bun test
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { StateStore } from './state-store';
+import type { OwnedResource } from './types';
+
+describe('StateStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  const resource: OwnedResource = {
+    key: '1/nextcloud',
+    containerId: 'abc123',
+    containerName: 'nextcloud',
+    environmentId: 1,
+    domain: 'nextcloud.example.com',
+    proxyHostId: 5,
+    monitorId: 'mon-1',
+    createdAt: '2024-05-01T00:00:00Z',
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tavern-state-'));
+    filePath = join(dir, 'nested', 'state.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('starts empty when state file does not exist', async () => {
+    const store = new StateStore(filePath);
+    await store.load();
+    expect(store.size).toBe(0);
+  });
+
+  test('persists resources across instances', async () => {
+    const store = new StateStore(filePath);
+    store.set({ ...resource });
+    await store.save();
+
+    const reloaded = new StateStore(filePath);
+    await reloaded.load();
+    expect(reloaded.get('1/nextcloud')).toEqual(resource);
+  });
+
+  test('does not leave temporary file behind', async () => {
+    const store = new StateStore(filePath);
+    store.set({ ...resource });
+    await store.save();
+
+    expect(await Bun.file(`${filePath}.tmp`).exists()).toBe(false);
+  });
+
+  test('ignores corrupt state file', async () => {
+    await Bun.write(filePath, '{ not json');
+
+    const store = new StateStore(filePath);
+    await store.load();
+    expect(store.size).toBe(0);
+  });
+
+  test('ignores state file with unknown version', async () => {
+    await Bun.write(filePath, JSON.stringify({ version: 99, resources: [resource] }));
+
+    const store = new StateStore(filePath);
+    await store.load();
+    expect(store.size).toBe(0);
+  });
+
+  test('finds entries by proxy host and monitor ID', () => {
+    const store = new StateStore(null);
+    store.set({ ...resource });
+
+    expect(store.findByProxyHostId(5)?.key).toBe('1/nextcloud');
+    expect(store.findByMonitorId('mon-1')?.key).toBe('1/nextcloud');
+    expect(store.findByProxyHostId(6)).toBeUndefined();
+  });
+
+  test('in-memory store does not touch disk', async () => {
+    const store = new StateStore(null);
+    store.set({ ...resource });
+    await store.save();
+    await store.load();
+
+    expect(store.size).toBe(1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * State Store
+ * Persists resources created by Dockhand Tavern (NPM proxy hosts, Peekaping monitors)
+ * so ownership survives restarts
+ */
+
+import { mkdir, rename } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { OwnedResource } from './types';
+import { logger } from './logger';
+
+const STATE_VERSION = 1;
+
+interface StateFile {
+  version: number;
+  resources: OwnedResource[];
+}
+
+export class StateStore {
+  private filePath: string | null;
+  private resources: Map<string, OwnedResource> = new Map(); // ownerKey → resources
+
+  /**
+   * @param filePath JSON file to persist to, or null to keep state in memory only
+   */
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load state from disk
+   * A missing file is treated as empty state, a corrupt file is logged and ignored
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const file = Bun.file(this.filePath);
+    if (!(await file.exists())) {
+      logger.info(`[State] No state file at ${this.filePath}, starting fresh`);
+      return;
+    }
+
+    try {
+      const state: StateFile = await file.json();
+
+      if (state.version !== STATE_VERSION || !Array.isArray(state.resources)) {
+        logger.warn(`[State] Unsupported state file format in ${this.filePath}, starting fresh`);
+        return;
+      }
+
+      this.resources.clear();
+      for (const resource of state.resources) {
+        this.resources.set(resource.key, resource);
+      }
+
+      logger.info(`[State] Loaded ${this.resources.size} owned resource(s) from ${this.filePath}`);
+    } catch (error) {
+      logger.error(`[State] Failed to read state file ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Write state to disk
+   * Writes to a temporary file first so a crash never leaves a truncated state file
+   */
+  async save(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const state: StateFile = {
+      version: STATE_VERSION,
+      resources: this.all(),
+    };
+
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await Bun.write(tmpPath, JSON.stringify(state, null, 2));
+      await rename(tmpPath, this.filePath);
+    } catch (error) {
+      logger.error(`[State] Failed to write state file ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Get all owned resources
+   * Returned entries are live - changes are persisted with the next save()
+   */
+  all(): OwnedResource[] {
+    return Array.from(this.resources.values());
+  }
+
+  get(key: string): OwnedResource | undefined {
+    return this.resources.get(key);
+  }
+
+  set(resource: OwnedResource): void {
+    this.resources.set(resource.key, resource);
+  }
+
+  delete(key: string): void {
+    this.resources.delete(key);
+  }
+
+  /**
+   * Find the entry owning an NPM proxy host
+   */
+  findByProxyHostId(proxyHostId: number): OwnedResource | undefined {
+    return this.all().find(resource => resource.proxyHostId === proxyHostId);
+  }
+
+  /**
+   * Find the entry owning a Peekaping monitor
+   */
+  findByMonitorId(monitorId: string): OwnedResource | undefined {
+    return this.all().find(resource => resource.monitorId === monitorId);
+  }
+
+  get size(): number {
+    return this.resources.size;
+  }
+}
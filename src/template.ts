@@ -3,7 +3,7 @@
  * Server-side rendering of dashboard HTML
  */
 
-import type { CacheData, ProcessedContainer, FilterOptions } from './types';
+import type { CacheData, ProcessedContainer, FilterOptions, ContainerDiff, MonitorStatus, EnvironmentStatus, CertificateWarning, AuthUser } from './types';
 import { getUniqueGroups, getUniqueEnvironments } from './utils';
 
 /**
@@ -51,14 +51,120 @@ function renderGroupedContainers(containers: ProcessedContainer[]): string {
   }).join('');
 }
 
+/**
+ * Render health dot, uptime, monitor status and restart warning of a container
+ * Bookmarks have no runtime state and only show their health check result and monitor status (if any)
+ */
+function renderStatus(container: ProcessedContainer): string {
+  const parts: string[] = [];
+
+  if (container.state) {
+    const knownHealth = ['healthy', 'unhealthy', 'starting'];
+    const isStopped = container.state !== 'running';
+    const health = isStopped
+      ? 'stopped'
+      : container.health && knownHealth.includes(container.health) ? container.health : 'none';
+    const healthTitle = health === 'none' ? `${container.state} (no health check)` : isStopped ? container.state : health;
+    const createdTitle = container.created
+      ? `Created: ${new Date(container.created * 1000).toLocaleString()}`
+      : '';
+    const exitCode = container.exitCode !== undefined ? ` (exit ${container.exitCode})` : '';
+
+    parts.push(`<span class="health-dot health-${health}" title="${escapeHtml(healthTitle)}"></span>`);
+    parts.push(`<span class="uptime" title="${escapeHtml(createdTitle)}">${container.uptime ? `up ${escapeHtml(container.uptime)}` : `${escapeHtml(container.state)}${exitCode}`}</span>`);
+  } else if (container.health) {
+    const label = container.health === 'healthy' ? 'up' : container.health === 'unhealthy' ? 'down' : 'checking';
+    parts.push(`<span class="health-dot health-${escapeHtml(container.health)}" title="${escapeHtml(container.status || '')}"></span>`);
+    parts.push(`<span class="uptime" title="${escapeHtml(container.status || '')}">${label}</span>`);
+  }
+
+  if (container.monitor) {
+    parts.push(renderMonitorStatus(container.monitor));
+  }
+
+  if (container.restartWarning) {
+    const restarts = container.restartCount || 0;
+    parts.push(`<span class="badge badge-restart" title="${escapeHtml(container.status || '')}">⟳ ${restarts} restart${restarts !== 1 ? 's' : ''}</span>`);
+  }
+
+  if (parts.length === 0) {
+    return '';
+  }
+
+  return `
+      <div class="card-status">
+        ${parts.join('\n        ')}
+      </div>`;
+}
+
+/**
+ * Render secondary links (dockhand-tavern.links.* labels) as buttons
+ */
+function renderLinks(container: ProcessedContainer): string {
+  if (!container.links || container.links.length === 0) {
+    return '';
+  }
+
+  return `
+      <div class="card-links">
+        ${container.links.map(link => `<a href="${escapeHtml(link.url)}" target="_blank" class="link-button" title="${escapeHtml(link.url)}">${escapeHtml(link.name)}</a>`).join('\n        ')}
+      </div>`;
+}
+
+/**
+ * Render bookmark description and tags
+ */
+function renderDetails(container: ProcessedContainer): string {
+  if (!container.description && !container.tags) {
+    return '';
+  }
+
+  const description = container.description
+    ? `<p class="card-description">${escapeHtml(container.description)}</p>`
+    : '';
+  const tags = container.tags
+    ? `<div class="card-tags">${container.tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</div>`
+    : '';
+
+  return `
+      ${description}${tags}`;
+}
+
+/**
+ * Render Peekaping monitor status with 24h uptime
+ */
+function renderMonitorStatus(monitor: MonitorStatus): string {
+  const uptime = monitor.uptime24h !== undefined ? `${formatUptimePercent(monitor.uptime24h)}%` : '–';
+  const lastCheck = monitor.lastCheck ? `, last check ${new Date(monitor.lastCheck).toLocaleString()}` : '';
+  const title = `Monitor ${monitor.status}, 24h uptime ${uptime}${lastCheck}`;
+
+  return `<span class="monitor monitor-${monitor.status}" title="${escapeHtml(title)}">◉ ${uptime}</span>`;
+}
+
+/**
+ * Format an uptime percentage: whole numbers stay short, everything else gets 1-2 decimals
+ * Never rounds up to 100 so a single failure stays visible
+ */
+function formatUptimePercent(percent: number): string {
+  const truncated = Math.floor(percent * 100) / 100;
+  if (Number.isInteger(truncated)) {
+    return String(Math.min(truncated, 100));
+  }
+  return truncated.toFixed(truncated >= 99 ? 2 : 1);
+}
+
 /**
  * Render a single container card
  */
 function renderCard(container: ProcessedContainer): string {
   const genericIconUrl = 'https://cdn.jsdelivr.net/gh/selfhst/icons/png/docker.png';
+  const isStopped = !!container.state && container.state !== 'running';
+  const searchText = [container.displayName, container.description, ...(container.tags || [])]
+    .filter(Boolean)
+    .join(' ');
   
   return `
-    <div class="card" data-group="${container.group}" data-env="${container.environment.name}">
+    <div class="card${isStopped ? ' card-stopped' : ''}${container.stale ? ' card-stale' : ''}"${container.stale ? ' title="Last known state, environment is unreachable"' : ''} data-state="${escapeHtml(container.state || '')}" data-id="${escapeHtml(container.id)}" data-group="${escapeHtml(container.group)}" data-env="${escapeHtml(container.environment.name)}" data-health="${escapeHtml(container.health || '')}" data-search="${escapeHtml(searchText)}">
       <a href="/?env=${encodeURIComponent(container.environment.name)}" 
          class="ribbon ribbon-env"
          data-filter-type="env"
@@ -76,25 +182,107 @@ function renderCard(container: ProcessedContainer): string {
           onerror="this.onerror=null; this.src='${genericIconUrl}';"
         />
         <h3 class="container-name">
-          <a href="${escapeHtml(container.url)}" target="_blank" class="container-link">
-            ${escapeHtml(container.displayName)}
-          </a>
+          ${container.url
+            ? `<a href="${escapeHtml(container.url)}" target="_blank" class="container-link">${escapeHtml(container.displayName)}</a>`
+            : escapeHtml(container.displayName)}
         </h3>
       </div>
+      ${renderDetails(container)}
+      ${renderLinks(container)}
+      ${renderStatus(container)}
     </div>
   `;
 }
 
+/**
+ * Render a banner for every environment that could not be fetched
+ * Stale environments still show their last known containers, offline ones have none
+ */
+function renderEnvironmentBanners(environments: EnvironmentStatus[]): string {
+  return environments
+    .filter(env => env.status !== 'ok')
+    .map(env => {
+      const error = env.error ? `: ${escapeHtml(env.error)}` : '';
+      const message = env.status === 'stale'
+        ? `⚠️ <strong>${escapeHtml(env.name)}</strong> is unreachable since ${env.staleSince!.toLocaleString()}, showing containers as of ${env.lastSuccess!.toLocaleString()}${error}`
+        : `⛔ <strong>${escapeHtml(env.name)}</strong> is offline, no containers could be fetched${error}`;
+      return `<div class="env-banner env-banner-${env.status}" data-env="${escapeHtml(env.name)}">${message}</div>`;
+    })
+    .join('\n    ');
+}
+
+/**
+ * Render a banner for every certificate of proxied containers that expires soon or has expired
+ */
+function renderCertificateBanners(warnings: CertificateWarning[]): string {
+  return warnings
+    .map(warning => {
+      const name = `<strong>${escapeHtml(warning.name)}</strong>`;
+      const usage = `used by ${warning.containers.length} container${warning.containers.length !== 1 ? 's' : ''}`;
+      const message = warning.daysLeft < 0
+        ? `⛔ Certificate ${name} has expired on ${warning.expiresOn.toLocaleDateString()} (${usage})`
+        : `🔒 Certificate ${name} expires ${warning.daysLeft === 0 ? 'today' : `in ${warning.daysLeft} day${warning.daysLeft !== 1 ? 's' : ''}`} on ${warning.expiresOn.toLocaleDateString()} (${usage})`;
+      const status = warning.daysLeft < 0 ? 'expired' : 'expiring';
+      return `<div class="env-banner cert-banner-${status}" title="${escapeHtml(warning.domains.join(', '))}">${message}</div>`;
+    })
+    .join('\n    ');
+}
+
+/**
+ * Environment and certificate banners shown below the filters
+ */
+function renderBanners(data: CacheData): string {
+  return [renderEnvironmentBanners(data.environmentStatus), renderCertificateBanners(data.certificateWarnings)]
+    .filter(banners => banners.length > 0)
+    .join('\n    ');
+}
+
+/**
+ * Global error message, only shown when no environment could be fetched at all
+ * (per-environment problems are shown as environment banners)
+ */
+function getGlobalError(data: CacheData): string | null {
+  return data.error && data.environmentStatus.length === 0 ? data.error : null;
+}
+
+/**
+ * Build the payload of a live update event (sent over SSE)
+ * Added and changed cards are rendered here so the client only has to patch the DOM
+ */
+export function renderLiveUpdate(diff: ContainerDiff, data: CacheData) {
+  const toCard = (container: ProcessedContainer) => ({
+    id: container.id,
+    group: container.group,
+    displayName: container.displayName,
+    html: renderCard(container),
+  });
+
+  return {
+    added: diff.added.map(toCard),
+    changed: diff.changed.map(toCard),
+    removed: diff.removed,
+    lastUpdate: data.lastUpdate.toLocaleString(),
+    count: data.containers.length,
+    error: getGlobalError(data),
+    banners: renderBanners(data),
+  };
+}
+
 /**
  * Render the complete dashboard HTML
+ * @param data Cache data, already limited to what the user may see
+ * @param user Signed-in user (shown in the header), null without authentication
  */
 export function renderDashboard(
   data: CacheData,
   filters: FilterOptions = {},
-  dockhandUrl?: string
+  dockhandUrl?: string,
+  user: AuthUser | null = null
 ): string {
   const allContainers = [...data.containers];
   const environments = getUniqueEnvironments(allContainers);
+  const hasStopped = allContainers.some(c => c.state && c.state !== 'running');
+  const globalError = getGlobalError(data);
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -121,7 +309,10 @@ export function renderDashboard(
         <h1>🍺 Dockhand Tavern</h1>
         ${dockhandUrl ? `<a href="${escapeHtml(dockhandUrl)}" target="_blank" class="dockhand-link" title="Open Dockhand">${escapeHtml(new URL(dockhandUrl).host)}</a>` : ''}
       </div>
-      <button id="refresh" title="Refresh">↻</button>
+      <div class="header-actions">
+        ${user ? `<span class="signed-in-user" title="${escapeHtml(user.groups.length > 0 ? `Groups: ${user.groups.join(', ')}` : 'No groups')}">👤 ${escapeHtml(user.username)}</span>` : ''}
+        <button id="refresh" title="Refresh">↻</button>
+      </div>
     </div>
     
     <div class="filters">
@@ -142,17 +333,26 @@ export function renderDashboard(
           .join('')}
       </select>
       
+      <label class="toggle" title="Only show containers failing their health check">
+        <input type="checkbox" id="unhealthy-filter" ${filters.unhealthy ? 'checked' : ''} />
+        Unhealthy only
+      </label>
+      
+      <label class="toggle" id="stopped-toggle" title="Show stopped and exited containers"${hasStopped ? '' : ' hidden'}>
+        <input type="checkbox" id="stopped-filter" ${filters.hideStopped ? '' : 'checked'} />
+        Show stopped
+      </label>
+      
       <button id="reset-filters" title="Clear all filters">✕ Clear</button>
     </div>
     
-    ${
-      data.error
-        ? `<div class="warning">⚠️ Last update failed: ${escapeHtml(data.error)}</div>`
-        : ''
-    }
+    <div class="warning" id="update-warning"${globalError ? '' : ' hidden'}>⚠️ Last update failed: <span class="warning-message">${escapeHtml(globalError || '')}</span></div>
+    <div id="environment-banners">
+    ${renderBanners(data)}
+    </div>
     
     <p class="last-update">
-      Last updated: ${data.lastUpdate.toLocaleString()} 
+      Last updated: <span class="last-update-time">${data.lastUpdate.toLocaleString()}</span> 
       <span class="container-count">(${allContainers.length} container${allContainers.length !== 1 ? 's' : ''})</span>
     </p>
   </header>
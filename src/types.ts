@@ -10,7 +10,9 @@ export type {
   PeekapingMonitor, 
   PeekapingCreateMonitorRequest,
   PeekapingTag,
-  PeekapingCreateTagRequest
+  PeekapingCreateTagRequest,
+  PeekapingHeartbeat,
+  PeekapingUptimeStats
 } from './peekaping-types';
 
 // Dockhand API Response Types
@@ -55,22 +57,297 @@ export interface ProcessedContainer {
     name: string;
     publicIp: string;
   };
-  url: string;
+  url?: string;               // Primary link, not set for stopped containers without a known address
   icon?: string;
   iconUrl: string;
   image: string;
+  // Runtime details (not set for bookmarks)
+  state?: string;             // Docker state, e.g. "running"
+  status?: string;            // Docker status text, e.g. "Up 3 hours (healthy)"
+  health?: string;            // "healthy" | "unhealthy" | "starting" (only with HEALTHCHECK)
+  uptime?: string;            // Human readable uptime, e.g. "3 hours"
+  restartCount?: number;
+  restartWarning?: boolean;   // Restarting or restart count above threshold
+  created?: number;           // Unix timestamp (seconds)
+  exitCode?: number;          // Exit status of stopped containers
+  monitor?: MonitorStatus;    // Peekaping monitor status (if monitored)
+  links?: ContainerLink[];    // Secondary links from dockhand-tavern.links.* labels
+  // Bookmark details
+  description?: string;
+  tags?: string[];
+  stale?: boolean;            // Last known state, the environment could not be fetched
+}
+
+// Host and port a container is reached on (card URL, NPM forward target, monitor URL)
+export interface ContainerTarget {
+  host: string;
+  port: number;
+}
+
+// Secondary link rendered as a button on a card
+export interface ContainerLink {
+  name: string;
+  url: string;
+}
+
+// Current state of a Peekaping monitor
+export interface MonitorStatus {
+  monitorId: string;
+  status: 'up' | 'down' | 'pending' | 'maintenance' | 'unknown';
+  uptime24h?: number;         // Percentage (0-100)
+  lastCheck?: string;         // ISO date string of the latest heartbeat
+}
+
+// Options for turning raw containers into dashboard cards
+export interface ProcessOptions {
+  restartWarningThreshold?: number;  // Restart count from which a card shows a restart-loop warning
+  showStopped?: boolean;             // Keep non-running containers as greyed-out cards
+  preferredNetworks?: string[];      // Networks checked (in order) for a container IP
 }
 
 // Cache Structure
 export interface CacheData {
   environments: DockhandEnvironment[];
   containers: ProcessedContainer[];
+  environmentStatus: EnvironmentStatus[];
+  certificateWarnings: CertificateWarning[];
   lastUpdate: Date;
+  error?: string;             // Refresh failed before any environment could be fetched
+}
+
+// NPM certificate of proxied containers that expires within the warning threshold (or has expired)
+export interface CertificateWarning {
+  id: number;
+  name: string;
+  domains: string[];
+  expiresOn: Date;
+  daysLeft: number;           // Negative once expired
+  containers: string[];       // IDs of the containers served with the certificate
+}
+
+// Fetch state of an environment
+// stale: last fetch failed, its last known containers are shown
+// offline: never fetched successfully, no containers to show
+export interface EnvironmentStatus {
+  id: number;
+  name: string;
+  status: 'ok' | 'stale' | 'offline';
+  lastSuccess?: Date;
+  staleSince?: Date;
   error?: string;
 }
 
+// Duration of the last cache refresh, per phase and per environment (milliseconds)
+export interface RefreshTimings {
+  startedAt: string;             // ISO date string
+  totalMs: number;
+  phases: Record<string, number>;
+  environments: Record<string, { durationMs: number; containers?: number; error?: string }>;
+  targetEnvironmentIds?: number[]; // Set for targeted refreshes (webhook events), absent for full refreshes
+}
+
+// Outcome of a refresh request (reported to webhook callers)
+// scheduled: started a new debounce window, coalesced: merged into an already queued run
+export interface RefreshRequestResult {
+  status: 'scheduled' | 'coalesced';
+  pendingRequests: number;     // Requests merged into the queued run so far
+}
+
+// Changes between two cache snapshots (pushed to dashboards over SSE)
+export interface ContainerDiff {
+  added: ProcessedContainer[];
+  removed: string[];          // IDs of removed containers
+  changed: ProcessedContainer[];
+}
+
+// Resources created by Dockhand Tavern on behalf of a container
+export interface OwnedResource {
+  key: string;              // "{environmentId}/{containerName}" - survives container re-creation
+  containerId: string;
+  containerName: string;
+  environmentId: number;
+  domain?: string;
+  proxyHostId?: number;
+  monitorId?: string;
+  createdAt: string;        // ISO date string
+  missingSince?: string;    // ISO date string, set while the container is gone
+  disabledAt?: string;      // ISO date string, set when resources were disabled by cleanup
+}
+
+// Cleanup (garbage collection) of owned resources
+export type CleanupAction = 'delete' | 'disable';
+
+export interface CleanupOptions {
+  enabled: boolean;
+  gracePeriodSeconds: number;
+  action: CleanupAction;
+  dryRun: boolean;
+}
+
+export interface CleanupReportEntry {
+  key: string;
+  domain?: string;
+  proxyHostId?: number;
+  monitorId?: string;
+  missingSince: string;
+  action: CleanupAction | `would-${CleanupAction}`;
+}
+
 // Filter Options
 export interface FilterOptions {
   search?: string;
   env?: string;
+  unhealthy?: boolean;
+  hideStopped?: boolean;
+}
+
+// Configuration (loaded and validated by config.ts)
+export interface ServerConfig {
+  port: number;
+  stateFile: string;
+  watchConfig: boolean;          // Reload automatically when the config file changes
+  trustProxy: boolean;           // Take the client IP from X-Forwarded-For (behind a reverse proxy)
+  trustedProxies: string[];      // Addresses/CIDR ranges allowed to send forward-auth headers
+}
+
+export interface DockhandConfig {
+  url: string;
+  username: string;
+  password: string;
+  concurrency: number;           // Environments fetched in parallel during a refresh
+  requestTimeout: number;        // Seconds before a Dockhand request is aborted
+  pollInterval: number;          // Seconds between periodic refreshes, 0 disables polling
+  pollMaxInterval: number;       // Upper limit of the backoff while Dockhand is unreachable
+}
+
+export interface BookmarkConfig {
+  name: string;
+  url: string;
+  icon?: string;
+  group?: string;
+  description?: string;
+  tags?: string[];
+  check?: BookmarkCheck;         // Health check run by the bookmark prober
+  monitor?: boolean;             // Register as Peekaping monitor
+}
+
+// Health check of a bookmark (target defaults to the bookmark URL)
+export interface BookmarkCheck {
+  type: 'http' | 'tcp';
+  target?: string;               // URL for http, host:port for tcp
+}
+
+// Result of a single bookmark health check
+export interface BookmarkCheckResult {
+  up: boolean;
+  message: string;               // e.g. "HTTP 200" or "connection refused"
+  latencyMs?: number;
+}
+
+export interface DashboardConfig extends ProcessOptions {
+  restartWarningThreshold: number;
+  showStopped: boolean;
+  preferredNetworks: string[];
+  bookmarks: BookmarkConfig[];
+  bookmarkCheckInterval: number; // Seconds between bookmark health checks
+}
+
+export interface NpmConfig {
+  url: string;
+  email: string;
+  password: string;
+  autoCreateDomain?: string;     // Base domain for auto-created proxy hosts
+  certificateId?: number;
+  domains: NpmDomainConfig[];    // Additional base domains with their certificates
+  publicAccessListId?: number;
+  defaultAccessListId?: number;
+  reconcile: boolean;            // Update forward target of owned hosts on mismatch
+  certificateWarningDays: number; // Warn about certificates expiring within this many days
+  requestCertificates: boolean;  // Request Let's Encrypt certificates for uncovered domains
+  letsEncryptEmail?: string;
+  certificateRequestLimit: number; // Certificate requests per 24 hours
+}
+
+/**
+ * Base domain for auto-created proxy hosts and the certificate they use
+ * Containers pick a domain with the dockhand-tavern.domain label, otherwise by environment
+ */
+export interface NpmDomainConfig {
+  domain: string;
+  certificateId: number;
+  environments?: string[];       // Environments using this domain (omitted: default domain)
+}
+
+export interface PeekapingConfig {
+  url: string;
+  apiKey: string;
+  notificationIds: string[];
+  defaultInterval: number;       // Seconds
+  defaultTimeout: number;        // Seconds
+  defaultMaxRetries: number;
+}
+
+export interface WebhookConfig {
+  secret?: string;               // Shared secret for HMAC signatures / token, unset = no authentication
+  rateLimit: number;             // Calls per minute and client IP, 0 = unlimited
+  historySize: number;           // Accepted calls kept for /api/webhooks
+}
+
+// Local dashboard user (basic auth)
+export interface AuthUserConfig {
+  username: string;
+  password: string;              // Plain text or a bcrypt/argon2 hash (Bun.password.hash)
+  groups?: string[];
+}
+
+// Grants the matching users the containers of the listed environments and groups
+// Omitted users/userGroups match every user, omitted environments/groups match everything
+export interface VisibilityRule {
+  users?: string[];
+  userGroups?: string[];
+  environments?: string[];       // Environment names ("bookmark" for bookmarks)
+  groups?: string[];             // dockhand-tavern.group values
+}
+
+export interface AuthConfig {
+  mode: 'none' | 'basic' | 'forward';
+  users: AuthUserConfig[];       // Local users for basic auth
+  userHeader: string;            // Forward auth: header with the user name (e.g. Remote-User)
+  groupsHeader: string;          // Forward auth: header with comma-separated groups (e.g. Remote-Groups)
+  visibility: VisibilityRule[];  // Empty = every user sees everything
+}
+
+// Signed-in dashboard user
+export interface AuthUser {
+  username: string;
+  groups: string[];
+}
+
+// Accepted webhook call (listed by /api/webhooks)
+export interface WebhookHistoryEntry {
+  receivedAt: Date;
+  ip: string;
+  method: string;                // HTTP method
+  auth: 'hmac' | 'token' | 'none';
+  refresh: RefreshRequestResult['status'];
+  event?: string;                // Event type from the payload
+  environmentId?: number;        // Environment named in the payload (targeted refresh), absent for full refreshes
+}
+
+// Container event parsed from a Dockhand webhook payload
+export interface WebhookEvent {
+  environmentId: number;
+  containerId?: string;
+  event?: string;                // e.g. "start", "die", "destroy"
+}
+
+export interface TavernConfig {
+  server: ServerConfig;
+  dockhand: DockhandConfig;
+  dashboard: DashboardConfig;
+  npm: NpmConfig | null;             // null when NPM integration is not configured
+  peekaping: PeekapingConfig | null; // null when Peekaping integration is not configured
+  cleanup: CleanupOptions;
+  webhook: WebhookConfig;
+  auth: AuthConfig;
 }
@@ -10,10 +10,41 @@ import {
   validateBaseDomain,
   validateGeneratedDomain,
   isDomainCoveredByCertificate,
+  selectBaseDomain,
+  findCertificateForDomain,
+  findAccessListByName,
+  getCertificateWarnings,
   findNpmProxyHostForContainer,
-  generateTagColor
+  generateTagColor,
+  getOwnerKey,
+  classifyOwnedResource,
+  diffContainers,
+  extractUptime,
+  hasRestartWarning,
+  processContainer,
+  filterContainers,
+  extractExitCode,
+  shouldShowStopped,
+  resolveTargetPort,
+  extractLinks,
+  expandIndexedLabels,
+  extractNetworkIp,
+  getPreferredNetworks,
+  resolveTarget,
+  parseTcpTarget,
+  parseIpRange,
+  isIpInRanges,
+  processBookmark,
+  bookmarkToContainer,
+  getBookmarkId,
+  mapWithConcurrency,
+  getPollDelay,
+  parseProxyLabels,
+  getProxySettingChanges,
+  DEFAULT_PROXY_SETTINGS
 } from './utils';
-import type { DockhandContainer, DockhandEnvironment, NpmProxyHost } from './types';
+import type { DockhandContainer, DockhandEnvironment, NpmDomainConfig, NpmProxyHost, OwnedResource, ProcessedContainer } from './types';
+import type { NpmAccessList, NpmCertificate } from './npm-types';
 
 describe('extractDomainFromUrl', () => {
   describe('Valid HTTPS domains', () => {
@@ -205,6 +236,102 @@ describe('isDomainCoveredByCertificate', () => {
   });
 });
 
+describe('base domains and certificates', () => {
+  const domains: NpmDomainConfig[] = [
+    { domain: 'ltrg.de', certificateId: 1 },
+    { domain: 'lab.ltrg.de', certificateId: 2, environments: ['lab'] },
+    { domain: 'example.com', certificateId: 3, environments: ['edge'] },
+  ];
+  const prod = { id: 1, name: 'prod', type: 'local', publicIp: '' } as DockhandEnvironment;
+  const lab = { id: 2, name: 'lab', type: 'local', publicIp: '' } as DockhandEnvironment;
+  const withLabels = (labels: Record<string, string>) => ({ name: 'app', labels } as unknown as DockhandContainer);
+
+  test('selects the domain of the environment, otherwise the default', () => {
+    expect(selectBaseDomain(withLabels({}), lab, domains)).toBe(domains[1]);
+    expect(selectBaseDomain(withLabels({}), prod, domains)).toBe(domains[0]);
+    expect(selectBaseDomain(withLabels({}), prod, domains.slice(1))).toBeNull();
+  });
+
+  test('domain label overrides the environment', () => {
+    expect(selectBaseDomain(withLabels({ 'dockhand-tavern.domain': 'Example.com' }), lab, domains)).toBe(domains[2]);
+    expect(selectBaseDomain(withLabels({ 'dockhand-tavern.domain': 'unknown.de' }), lab, domains)).toBeNull();
+  });
+
+  test('prefers the certificate of the base domain', () => {
+    const certificates = new Map([[1, ['*.ltrg.de', '*.lab.ltrg.de']], [2, ['*.lab.ltrg.de']]]);
+    expect(findCertificateForDomain('app.lab.ltrg.de', domains, certificates, domains[1])).toBe(2);
+    expect(findCertificateForDomain('app.lab.ltrg.de', domains, certificates, domains[0])).toBe(1);
+  });
+
+  test('picks another certificate covering the domain', () => {
+    const certificates = new Map([[1, ['*.ltrg.de']], [2, ['*.lab.ltrg.de']], [3, ['*.example.com']]]);
+    expect(findCertificateForDomain('cloud.example.com', domains, certificates, domains[0])).toBe(3);
+    expect(findCertificateForDomain('cloud.other.org', domains, certificates, domains[0])).toBeNull();
+  });
+
+  test('falls back to the base domain while certificate domains are unknown', () => {
+    expect(findCertificateForDomain('app.example.com', domains, new Map())).toBe(3);
+    expect(findCertificateForDomain('app.other.org', domains, new Map())).toBeNull();
+  });
+});
+
+describe('findAccessListByName', () => {
+  const accessLists = [
+    { id: 3, name: 'Family' },
+    { id: 4, name: 'LAN only ' },
+  ] as NpmAccessList[];
+
+  test('matches names case-insensitively', () => {
+    expect(findAccessListByName('family', accessLists)?.id).toBe(3);
+    expect(findAccessListByName(' lan only', accessLists)?.id).toBe(4);
+  });
+
+  test('returns null for unknown names', () => {
+    expect(findAccessListByName('admins', accessLists)).toBeNull();
+    expect(findAccessListByName('family', [])).toBeNull();
+  });
+});
+
+describe('getCertificateWarnings', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const certificate = (id: number, expiresOn: string) =>
+    ({ id, nice_name: `cert-${id}`, domain_names: [`*.d${id}.de`], expires_on: expiresOn, is_deleted: 0 } as NpmCertificate);
+  const host = (domain: string, certificateId: number) =>
+    ({ domain_names: [domain], certificate_id: certificateId } as NpmProxyHost);
+  const card = (id: string, url: string) => ({ id, url } as ProcessedContainer);
+
+  const certificates = [
+    certificate(1, '2026-03-10T00:00:00Z'), // 8 days left
+    certificate(2, '2026-02-20T00:00:00Z'), // Expired
+    certificate(3, '2026-06-01T00:00:00Z'), // Far away
+    certificate(4, '2026-03-02T00:00:00Z'), // Not used by any container
+  ];
+  const hosts = [host('app.d1.de', 1), host('git.d1.de', 1), host('old.d2.de', 2), host('new.d3.de', 3), host('x.d4.de', 0)];
+
+  test('reports used certificates within the threshold, soonest first', () => {
+    const containers = [
+      card('app', 'https://app.d1.de'),
+      card('git', 'https://git.d1.de/explore'),
+      card('old', 'https://old.d2.de'),
+      card('new', 'https://new.d3.de'),
+      card('lan', 'http://192.168.1.10:8080'),
+    ];
+
+    const warnings = getCertificateWarnings(certificates, containers, hosts, 14, now);
+    expect(warnings.map(warning => [warning.id, warning.daysLeft, warning.containers])).toEqual([
+      [2, -10, ['old']],
+      [1, 8, ['app', 'git']],
+    ]);
+    expect(warnings[1]).toMatchObject({ name: 'cert-1', domains: ['*.d1.de'] });
+  });
+
+  test('ignores certificates outside the threshold or without containers', () => {
+    expect(getCertificateWarnings(certificates, [card('new', 'https://new.d3.de')], hosts, 14, now)).toEqual([]);
+    expect(getCertificateWarnings(certificates, [card('new', 'https://new.d3.de')], hosts, 100, now).map(w => w.id)).toEqual([3]);
+    expect(getCertificateWarnings(certificates, [], hosts, 14, now)).toEqual([]);
+  });
+});
+
 describe('findNpmProxyHostForContainer', () => {
   const mockEnv: DockhandEnvironment = {
     id: 1,
@@ -357,6 +484,92 @@ describe('findNpmProxyHostForContainer', () => {
   });
 });
 
+describe('proxy labels', () => {
+  describe('parseProxyLabels', () => {
+    test('uses the defaults without labels', () => {
+      expect(parseProxyLabels({ 'dockhand-tavern.name': 'app' })).toEqual({ settings: DEFAULT_PROXY_SETTINGS, problems: [] });
+    });
+
+    test('maps labels onto proxy host settings', () => {
+      const { settings, problems } = parseProxyLabels({
+        'dockhand-tavern.proxy.scheme': 'HTTPS',
+        'dockhand-tavern.proxy.port': '8006',
+        'dockhand-tavern.proxy.websocket': 'false',
+        'dockhand-tavern.proxy.caching': 'true',
+        'dockhand-tavern.proxy.block-exploits': 'false',
+        'dockhand-tavern.proxy.hsts-subdomains': 'true',
+        'dockhand-tavern.proxy.advanced-config': 'client_max_body_size 0;\nproxy_read_timeout 300s;\n',
+      });
+
+      expect(problems).toEqual([]);
+      expect(settings).toEqual({
+        forward_scheme: 'https',
+        forward_port: 8006,
+        allow_websocket_upgrade: false,
+        caching_enabled: true,
+        block_exploits: false,
+        hsts_enabled: true,
+        hsts_subdomains: true,
+        advanced_config: 'client_max_body_size 0;\nproxy_read_timeout 300s;',
+      });
+    });
+
+    test('reports every invalid label', () => {
+      const { problems } = parseProxyLabels({
+        'dockhand-tavern.proxy.scheme': 'ftp',
+        'dockhand-tavern.proxy.port': '70000',
+        'dockhand-tavern.proxy.caching': 'yes',
+        'dockhand-tavern.proxy.http2': 'true',
+        'dockhand-tavern.proxy.hsts': 'false',
+        'dockhand-tavern.proxy.hsts-subdomains': 'true',
+      });
+
+      expect(problems).toEqual([
+        '"dockhand-tavern.proxy.scheme" must be http or https, got "ftp"',
+        '"dockhand-tavern.proxy.port" must be a port between 1 and 65535, got "70000"',
+        '"dockhand-tavern.proxy.caching" must be true or false, got "yes"',
+        'unknown label "dockhand-tavern.proxy.http2"',
+        '"dockhand-tavern.proxy.hsts-subdomains" requires HSTS (dockhand-tavern.proxy.hsts is false)',
+      ]);
+    });
+
+    test('validates the advanced config snippet', () => {
+      const problemOf = (config: string) => parseProxyLabels({ 'dockhand-tavern.proxy.advanced-config': config }).problems;
+
+      expect(problemOf('location /api { proxy_pass http://10.0.0.5:9000; }')).toEqual([]);
+      expect(problemOf('location /api { proxy_pass http://10.0.0.5:9000;')).toEqual([
+        '"dockhand-tavern.proxy.advanced-config" has unbalanced braces',
+      ]);
+      expect(problemOf('} location / {')).toEqual(['"dockhand-tavern.proxy.advanced-config" has unbalanced braces']);
+      expect(problemOf('client_max_body_size 0')).toEqual(['"dockhand-tavern.proxy.advanced-config" must end with ";" or "}"']);
+      expect(problemOf(`# ${'x'.repeat(9000)}`)).toEqual([
+        '"dockhand-tavern.proxy.advanced-config" is longer than 8192 characters',
+      ]);
+    });
+  });
+
+  describe('getProxySettingChanges', () => {
+    const host = {
+      forward_scheme: 'http',
+      allow_websocket_upgrade: 1,
+      caching_enabled: 0,
+      block_exploits: true,
+      hsts_enabled: true,
+      hsts_subdomains: false,
+      advanced_config: '',
+    } as unknown as NpmProxyHost;
+
+    test('reports nothing for matching settings (including 0/1 booleans)', () => {
+      expect(getProxySettingChanges(host, DEFAULT_PROXY_SETTINGS)).toEqual({});
+    });
+
+    test('reports changed fields only', () => {
+      const settings = { ...DEFAULT_PROXY_SETTINGS, forward_scheme: 'https', caching_enabled: true, forward_port: 8443 };
+      expect(getProxySettingChanges(host, settings)).toEqual({ forward_scheme: 'https', caching_enabled: true });
+    });
+  });
+});
+
 describe('generateTagColor', () => {
   test('generates consistent color for same input', () => {
     const color1 = generateTagColor('prod');
@@ -418,3 +631,770 @@ describe('generateTagColor', () => {
     expect(validColors).toContain(color);
   });
 });
+
+describe('getOwnerKey', () => {
+  test('combines environment ID and container name', () => {
+    expect(getOwnerKey(3, 'nextcloud-app-1')).toBe('3/nextcloud-app-1');
+  });
+});
+
+describe('classifyOwnedResource', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+  const gracePeriodMs = 60 * 60 * 1000; // 1 hour
+
+  const resource: OwnedResource = {
+    key: '1/nextcloud',
+    containerId: 'abc123',
+    containerName: 'nextcloud',
+    environmentId: 1,
+    domain: 'nextcloud.example.com',
+    proxyHostId: 5,
+    createdAt: '2024-05-01T00:00:00Z',
+  };
+
+  test('returns present when container still exists', () => {
+    const result = classifyOwnedResource(resource, new Set(['1/nextcloud']), new Set([1]), now, gracePeriodMs);
+    expect(result).toBe('present');
+  });
+
+  test('returns unknown when environment was not fetched', () => {
+    const result = classifyOwnedResource(resource, new Set(), new Set([2]), now, gracePeriodMs);
+    expect(result).toBe('unknown');
+  });
+
+  test('returns missing when container just disappeared', () => {
+    const result = classifyOwnedResource(resource, new Set(), new Set([1]), now, gracePeriodMs);
+    expect(result).toBe('missing');
+  });
+
+  test('returns missing while within grace period', () => {
+    const missing = { ...resource, missingSince: '2024-06-01T11:30:00Z' };
+    const result = classifyOwnedResource(missing, new Set(), new Set([1]), now, gracePeriodMs);
+    expect(result).toBe('missing');
+  });
+
+  test('returns expired after grace period', () => {
+    const missing = { ...resource, missingSince: '2024-06-01T11:00:00Z' };
+    const result = classifyOwnedResource(missing, new Set(), new Set([1]), now, gracePeriodMs);
+    expect(result).toBe('expired');
+  });
+
+  test('returns present even if previously marked missing', () => {
+    const missing = { ...resource, missingSince: '2024-05-01T00:00:00Z' };
+    const result = classifyOwnedResource(missing, new Set(['1/nextcloud']), new Set([1]), now, gracePeriodMs);
+    expect(result).toBe('present');
+  });
+});
+
+describe('diffContainers', () => {
+  const makeContainer = (id: string, overrides: Partial<ProcessedContainer> = {}): ProcessedContainer => ({
+    id,
+    displayName: id,
+    group: 'ungrouped',
+    environment: { id: 1, name: 'prod', publicIp: '192.168.1.100' },
+    url: `http://192.168.1.100/${id}`,
+    iconUrl: 'https://cdn.jsdelivr.net/gh/selfhst/icons/png/docker.png',
+    image: 'nginx',
+    ...overrides,
+  });
+
+  test('returns empty diff for identical snapshots', () => {
+    const containers = [makeContainer('a'), makeContainer('b')];
+    const diff = diffContainers(containers, containers.map(c => ({ ...c })));
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  test('detects added containers', () => {
+    const diff = diffContainers([makeContainer('a')], [makeContainer('a'), makeContainer('b')]);
+    expect(diff.added.map(c => c.id)).toEqual(['b']);
+    expect(diff.removed).toEqual([]);
+  });
+
+  test('detects removed containers', () => {
+    const diff = diffContainers([makeContainer('a'), makeContainer('b')], [makeContainer('a')]);
+    expect(diff.removed).toEqual(['b']);
+    expect(diff.added).toEqual([]);
+  });
+
+  test('detects changed containers', () => {
+    const diff = diffContainers(
+      [makeContainer('a')],
+      [makeContainer('a', { url: 'https://a.example.com' })]
+    );
+    expect(diff.changed.map(c => c.url)).toEqual(['https://a.example.com']);
+  });
+
+  test('detects nested changes', () => {
+    const diff = diffContainers(
+      [makeContainer('a')],
+      [makeContainer('a', { environment: { id: 2, name: 'staging', publicIp: '192.168.1.101' } })]
+    );
+    expect(diff.changed).toHaveLength(1);
+  });
+
+  test('ignores relative uptime text of an unchanged container', () => {
+    const diff = diffContainers(
+      [makeContainer('a', { state: 'running', status: 'Up 3 minutes', uptime: '3 minutes' })],
+      [makeContainer('a', { state: 'running', status: 'Up 4 minutes', uptime: '4 minutes' })]
+    );
+    expect(diff.changed).toEqual([]);
+  });
+
+  test('ignores monitor heartbeats that do not change the card', () => {
+    const monitor = { monitorId: 'm1', status: 'up' as const, uptime24h: 99.52, lastCheck: '2026-01-01T10:00:00Z' };
+    const diff = diffContainers(
+      [makeContainer('a', { monitor })],
+      [makeContainer('a', { monitor: { ...monitor, uptime24h: 99.54, lastCheck: '2026-01-01T10:01:00Z' } })]
+    );
+    expect(diff.changed).toEqual([]);
+  });
+
+  test('detects monitor status and uptime changes', () => {
+    const monitor = { monitorId: 'm1', status: 'up' as const, uptime24h: 100 };
+    const down = diffContainers([makeContainer('a', { monitor })], [makeContainer('a', { monitor: { ...monitor, status: 'down' } })]);
+    const dropped = diffContainers([makeContainer('a', { monitor })], [makeContainer('a', { monitor: { ...monitor, uptime24h: 98.9 } })]);
+    expect(down.changed).toHaveLength(1);
+    expect(dropped.changed).toHaveLength(1);
+  });
+});
+
+describe('extractUptime', () => {
+  test('extracts uptime from running status', () => {
+    expect(extractUptime('Up 3 hours')).toBe('3 hours');
+  });
+
+  test('strips health suffix', () => {
+    expect(extractUptime('Up About an hour (healthy)')).toBe('About an hour');
+  });
+
+  test('strips health starting suffix', () => {
+    expect(extractUptime('Up 5 seconds (health: starting)')).toBe('5 seconds');
+  });
+
+  test('returns null for exited containers', () => {
+    expect(extractUptime('Exited (0) 2 minutes ago')).toBeNull();
+  });
+
+  test('returns null for missing status', () => {
+    expect(extractUptime(undefined)).toBeNull();
+  });
+});
+
+describe('hasRestartWarning', () => {
+  test('warns when container is restarting', () => {
+    expect(hasRestartWarning({ state: 'restarting', restartCount: 0 }, 5)).toBe(true);
+  });
+
+  test('warns when restart count reaches threshold', () => {
+    expect(hasRestartWarning({ state: 'running', restartCount: 5 }, 5)).toBe(true);
+  });
+
+  test('does not warn below threshold', () => {
+    expect(hasRestartWarning({ state: 'running', restartCount: 4 }, 5)).toBe(false);
+  });
+});
+
+describe('processContainer', () => {
+  const env: DockhandEnvironment = {
+    id: 1,
+    name: 'prod',
+    type: 'production',
+    publicIp: '192.168.1.100',
+  };
+
+  const baseContainer: DockhandContainer = {
+    id: 'container-123',
+    name: 'web-app',
+    image: 'nginx:latest',
+    state: 'running',
+    status: 'Up 2 hours (unhealthy)',
+    created: 1717243200,
+    ports: [{ IP: '0.0.0.0', PrivatePort: 80, PublicPort: 8080, Type: 'tcp' }],
+    networks: {},
+    health: 'unhealthy',
+    restartCount: 7,
+    mounts: [],
+    labels: {},
+    command: '',
+    systemContainer: null,
+  };
+
+  test('carries runtime details into processed container', () => {
+    const result = processContainer(baseContainer, env)!;
+    expect(result.state).toBe('running');
+    expect(result.health).toBe('unhealthy');
+    expect(result.uptime).toBe('2 hours');
+    expect(result.restartCount).toBe(7);
+    expect(result.created).toBe(1717243200);
+  });
+
+  test('flags restart loop with default threshold', () => {
+    expect(processContainer(baseContainer, env)!.restartWarning).toBe(true);
+  });
+
+  test('respects custom restart warning threshold', () => {
+    const result = processContainer(baseContainer, env, [], undefined, { restartWarningThreshold: 10 })!;
+    expect(result.restartWarning).toBe(false);
+  });
+
+  test('leaves health undefined without health check', () => {
+    const result = processContainer({ ...baseContainer, health: undefined }, env)!;
+    expect(result.health).toBeUndefined();
+  });
+
+  test('unhealthy filter keeps only unhealthy containers', () => {
+    const unhealthy = processContainer(baseContainer, env)!;
+    const healthy = processContainer({ ...baseContainer, id: 'other', health: 'healthy' }, env)!;
+    const result = filterContainers([unhealthy, healthy], { unhealthy: true });
+    expect(result.map(c => c.id)).toEqual(['container-123']);
+  });
+
+  describe('stopped containers', () => {
+    const stopped: DockhandContainer = {
+      ...baseContainer,
+      state: 'exited',
+      status: 'Exited (137) 2 hours ago',
+      ports: [],
+      health: undefined,
+    };
+
+    test('hides stopped containers by default', () => {
+      expect(processContainer(stopped, env)).toBeNull();
+    });
+
+    test('keeps stopped containers when enabled, even without ports', () => {
+      const result = processContainer(stopped, env, [], undefined, { showStopped: true })!;
+      expect(result.state).toBe('exited');
+      expect(result.exitCode).toBe(137);
+      expect(result.uptime).toBeUndefined();
+    });
+
+    test('stopped containers link only to a label or owned domain', () => {
+      expect(processContainer(stopped, env, [], undefined, { showStopped: true })!.url).toBeUndefined();
+      expect(processContainer(stopped, env, [], 'app.example.com', { showStopped: true })!.url).toBe('https://app.example.com');
+
+      const labelled = { ...stopped, labels: { 'dockhand-tavern.url': 'https://app.example.com/ui' } };
+      expect(processContainer(labelled, env, [], undefined, { showStopped: true })!.url).toBe('https://app.example.com/ui');
+    });
+
+    test('show-stopped label enables single container', () => {
+      const labelled = { ...stopped, labels: { 'dockhand-tavern.show-stopped': 'true' } };
+      expect(processContainer(labelled, env)).not.toBeNull();
+    });
+
+    test('show-stopped=false label hides container despite global setting', () => {
+      const labelled = { ...stopped, labels: { 'dockhand-tavern.show-stopped': 'false' } };
+      expect(processContainer(labelled, env, [], undefined, { showStopped: true })).toBeNull();
+    });
+
+    test('hideStopped filter removes stopped containers', () => {
+      const running = processContainer(baseContainer, env)!;
+      const exited = processContainer(stopped, env, [], undefined, { showStopped: true })!;
+      const result = filterContainers([running, { ...exited, id: 'stopped' }], { hideStopped: true });
+      expect(result.map(c => c.id)).toEqual(['container-123']);
+    });
+  });
+});
+
+describe('extractExitCode', () => {
+  test('extracts exit code from exited status', () => {
+    expect(extractExitCode('Exited (137) 2 hours ago')).toBe(137);
+  });
+
+  test('extracts zero exit code', () => {
+    expect(extractExitCode('Exited (0) 5 seconds ago')).toBe(0);
+  });
+
+  test('returns null for running containers', () => {
+    expect(extractExitCode('Up 3 hours')).toBeNull();
+  });
+});
+
+describe('shouldShowStopped', () => {
+  const container = { labels: {} } as DockhandContainer;
+
+  test('uses global default without label', () => {
+    expect(shouldShowStopped(container, true)).toBe(true);
+    expect(shouldShowStopped(container, false)).toBe(false);
+  });
+
+  test('label overrides global default', () => {
+    const labelled = { labels: { 'dockhand-tavern.show-stopped': 'true' } } as unknown as DockhandContainer;
+    expect(shouldShowStopped(labelled, false)).toBe(true);
+  });
+});
+
+describe('resolveTargetPort', () => {
+  const container = {
+    name: 'multi-port',
+    ports: [
+      { IP: '0.0.0.0', PrivatePort: 9000, PublicPort: 9000, Type: 'tcp' },
+      { IP: '0.0.0.0', PrivatePort: 80, PublicPort: 8080, Type: 'tcp' },
+      { IP: '0.0.0.0', PrivatePort: 53, PublicPort: 5353, Type: 'udp' },
+    ],
+    labels: {},
+  } as unknown as DockhandContainer;
+
+  const withPortLabel = (port: string) =>
+    ({ ...container, labels: { 'dockhand-tavern.port': port } }) as DockhandContainer;
+
+  test('defaults to lowest published port', () => {
+    expect(resolveTargetPort(container)).toBe(8080);
+  });
+
+  test('selects published port from label', () => {
+    expect(resolveTargetPort(withPortLabel('9000'))).toBe(9000);
+  });
+
+  test('maps container port from label to published port', () => {
+    expect(resolveTargetPort(withPortLabel('80'))).toBe(8080);
+  });
+
+  test('falls back to lowest published port when label port is not published', () => {
+    expect(resolveTargetPort(withPortLabel('3000'))).toBe(8080);
+    expect(resolveTargetPort(withPortLabel('5353'))).toBe(8080); // UDP only
+    expect(resolveTargetPort(withPortLabel('abc'))).toBe(8080);
+  });
+
+  test('returns null without published ports', () => {
+    expect(resolveTargetPort({ ...container, ports: [] })).toBeNull();
+  });
+
+  test('port label selects NPM proxy host of that port', () => {
+    const env = { id: 1, name: 'prod', type: 'production', publicIp: '192.168.1.100' } as DockhandEnvironment;
+    const hosts = [
+      { id: 1, forward_host: '192.168.1.100', forward_port: 8080, domain_names: ['web.example.com'] },
+      { id: 2, forward_host: '192.168.1.100', forward_port: 9000, domain_names: ['api.example.com'] },
+    ] as NpmProxyHost[];
+
+    expect(findNpmProxyHostForContainer(withPortLabel('9000'), env, hosts)?.id).toBe(2);
+  });
+
+  test('proxy port label selects NPM proxy host of the overridden port', () => {
+    const env = { id: 1, name: 'prod', type: 'production', publicIp: '192.168.1.100' } as DockhandEnvironment;
+    const hosts = [
+      { id: 1, forward_host: '192.168.1.100', forward_port: 8080, domain_names: ['web.example.com'] },
+      { id: 2, forward_host: '192.168.1.100', forward_port: 8443, domain_names: ['secure.example.com'] },
+    ] as NpmProxyHost[];
+    const withProxyPort = { ...container, labels: { 'dockhand-tavern.proxy.port': '8443' } } as DockhandContainer;
+
+    expect(findNpmProxyHostForContainer(withProxyPort, env, hosts)?.id).toBe(2);
+  });
+});
+
+describe('extractLinks', () => {
+  const container = {
+    name: 'grafana',
+    ports: [
+      { IP: '0.0.0.0', PrivatePort: 3000, PublicPort: 3000, Type: 'tcp' },
+      { IP: '0.0.0.0', PrivatePort: 9090, PublicPort: 19090, Type: 'tcp' },
+    ],
+    labels: {},
+  } as unknown as DockhandContainer;
+
+  const withLinks = (links: Record<string, string>) =>
+    ({ ...container, labels: links }) as DockhandContainer;
+
+  test('returns empty array without link labels', () => {
+    expect(extractLinks(container, 'http://192.168.1.100:3000', '192.168.1.100')).toEqual([]);
+  });
+
+  test('keeps full URLs as-is', () => {
+    const links = extractLinks(
+      withLinks({ 'dockhand-tavern.links.docs': 'https://grafana.com/docs' }),
+      'http://192.168.1.100:3000',
+      '192.168.1.100'
+    );
+    expect(links).toEqual([{ name: 'docs', url: 'https://grafana.com/docs' }]);
+  });
+
+  test('builds URL from published or container port', () => {
+    const links = extractLinks(
+      withLinks({
+        'dockhand-tavern.links.metrics': '9090',
+        'dockhand-tavern.links.public': '19090',
+      }),
+      'http://192.168.1.100:3000',
+      '192.168.1.100'
+    );
+    expect(links).toEqual([
+      { name: 'metrics', url: 'http://192.168.1.100:19090' },
+      { name: 'public', url: 'http://192.168.1.100:19090' },
+    ]);
+  });
+
+  test('prefers NPM proxy domain for port links', () => {
+    const hosts = [
+      { forward_host: '192.168.1.100', forward_port: 19090, domain_names: ['metrics.example.com'], ssl_forced: true, enabled: true },
+    ] as NpmProxyHost[];
+
+    const links = extractLinks(
+      withLinks({ 'dockhand-tavern.links.metrics': '9090' }),
+      'http://192.168.1.100:3000',
+      '192.168.1.100',
+      hosts
+    );
+    expect(links[0].url).toBe('https://metrics.example.com');
+  });
+
+  test('appends paths to the primary URL', () => {
+    const links = extractLinks(
+      withLinks({ 'dockhand-tavern.links.admin': '/admin' }),
+      'https://grafana.example.com/',
+      '192.168.1.100'
+    );
+    expect(links).toEqual([{ name: 'admin', url: 'https://grafana.example.com/admin' }]);
+  });
+
+  test('skips invalid and unpublished targets', () => {
+    const links = extractLinks(
+      withLinks({
+        'dockhand-tavern.links.bad': 'not a url',
+        'dockhand-tavern.links.closed': '4000',
+        'dockhand-tavern.links.': 'https://example.com',
+      }),
+      'http://192.168.1.100:3000',
+      '192.168.1.100'
+    );
+    expect(links).toEqual([]);
+  });
+
+  test('sorts links by name', () => {
+    const links = extractLinks(
+      withLinks({
+        'dockhand-tavern.links.zeta': '/z',
+        'dockhand-tavern.links.alpha': '/a',
+      }),
+      'http://192.168.1.100:3000',
+      '192.168.1.100'
+    );
+    expect(links.map(link => link.name)).toEqual(['alpha', 'zeta']);
+  });
+});
+
+describe('expandIndexedLabels', () => {
+  const env: DockhandEnvironment = {
+    id: 1,
+    name: 'prod',
+    type: 'production',
+    publicIp: '192.168.1.100',
+  };
+
+  const gateway: DockhandContainer = {
+    id: 'abc123',
+    name: 'gateway',
+    image: 'gateway:latest',
+    state: 'running',
+    status: 'Up 1 hour',
+    created: 1717243200,
+    ports: [
+      { IP: '0.0.0.0', PrivatePort: 3000, PublicPort: 3000, Type: 'tcp' },
+      { IP: '0.0.0.0', PrivatePort: 9090, PublicPort: 9090, Type: 'tcp' },
+    ],
+    networks: {},
+    restartCount: 0,
+    mounts: [],
+    labels: {
+      'com.docker.compose.service': 'gateway',
+      'dockhand-tavern.group': 'Monitoring',
+      'dockhand-tavern.name': 'Gateway',
+      'dockhand-tavern.links.docs': 'https://example.com/docs',
+      'dockhand-tavern.0.name': 'Grafana',
+      'dockhand-tavern.0.port': '3000',
+      'dockhand-tavern.1.name': 'Prometheus',
+      'dockhand-tavern.1.port': '9090',
+      'dockhand-tavern.1.group': 'Metrics',
+    },
+    command: '',
+    systemContainer: null,
+  };
+
+  test('returns container unchanged without indexed labels', () => {
+    const plain = { ...gateway, labels: { 'dockhand-tavern.name': 'Plain' } };
+    expect(expandIndexedLabels(plain)).toEqual([plain]);
+  });
+
+  test('expands one virtual container per index', () => {
+    const entries = expandIndexedLabels(gateway);
+
+    expect(entries.map(entry => entry.id)).toEqual(['abc123#0', 'abc123#1']);
+    expect(entries.map(entry => entry.name)).toEqual(['gateway#0', 'gateway#1']);
+    expect(entries[0].labels['dockhand-tavern.name']).toBe('Grafana');
+    expect(entries[1].labels['dockhand-tavern.port']).toBe('9090');
+  });
+
+  test('inherits shared labels but not entry-specific ones', () => {
+    const [grafana, prometheus] = expandIndexedLabels(gateway);
+
+    expect(grafana.labels['dockhand-tavern.group']).toBe('Monitoring');
+    expect(prometheus.labels['dockhand-tavern.group']).toBe('Metrics');
+    expect(grafana.labels['com.docker.compose.service']).toBe('gateway');
+    expect(grafana.labels['dockhand-tavern.links.docs']).toBeUndefined();
+    expect(grafana.labels['dockhand-tavern.0.name']).toBeUndefined();
+  });
+
+  test('proxy scheme is shared, the proxy port is entry-specific', () => {
+    const proxied = {
+      ...gateway,
+      labels: {
+        ...gateway.labels,
+        'dockhand-tavern.proxy.scheme': 'https',
+        'dockhand-tavern.proxy.port': '8443',
+      },
+    };
+    const [grafana] = expandIndexedLabels(proxied);
+
+    expect(grafana.labels['dockhand-tavern.proxy.scheme']).toBe('https');
+    expect(grafana.labels['dockhand-tavern.proxy.port']).toBeUndefined();
+  });
+
+  test('names unnamed entries after the container', () => {
+    const unnamed = {
+      ...gateway,
+      labels: { 'com.docker.compose.service': 'gateway', 'dockhand-tavern.2.port': '9090' },
+    };
+
+    expect(expandIndexedLabels(unnamed)[0].labels['dockhand-tavern.name']).toBe('gateway-2');
+  });
+
+  test('expanded entries become separate cards with their own port', () => {
+    const cards = expandIndexedLabels(gateway).map(entry => processContainer(entry, env)!);
+
+    expect(cards.map(card => card.displayName)).toEqual(['Grafana', 'Prometheus']);
+    expect(cards.map(card => card.url)).toEqual(['http://192.168.1.100:3000', 'http://192.168.1.100:9090']);
+  });
+
+  test('per-entry disable label hides only that entry', () => {
+    const withDisabled = {
+      ...gateway,
+      labels: { ...gateway.labels, 'dockhand-tavern.1.disable': 'true' },
+    };
+    const cards = expandIndexedLabels(withDisabled)
+      .map(entry => processContainer(entry, env))
+      .filter(card => card !== null);
+
+    expect(cards.map(card => card!.displayName)).toEqual(['Grafana']);
+  });
+});
+
+describe('network selection', () => {
+  const env: DockhandEnvironment = {
+    id: 1,
+    name: 'prod',
+    type: 'production',
+    publicIp: '192.168.1.100',
+  };
+
+  const networks = {
+    bridge: { ipAddress: '172.17.0.2' },
+    macvlan: { ipAddress: '192.168.1.50' },
+    'dhcp-ext': { ipAddress: '192.168.1.60' },
+    broken: { ipAddress: '0.0.0.0' },
+  };
+
+  const container = {
+    name: 'app',
+    ports: [],
+    networks,
+    labels: {},
+  } as unknown as DockhandContainer;
+
+  describe('extractNetworkIp', () => {
+    test('defaults to dhcp-ext network', () => {
+      expect(extractNetworkIp(networks)).toBe('192.168.1.60');
+    });
+
+    test('uses first preferred network with a valid IP', () => {
+      expect(extractNetworkIp(networks, ['missing', 'broken', 'macvlan', 'dhcp-ext'])).toBe('192.168.1.50');
+    });
+
+    test('returns null when no preferred network matches', () => {
+      expect(extractNetworkIp(networks, ['missing'])).toBeNull();
+    });
+  });
+
+  describe('getPreferredNetworks', () => {
+    test('puts label networks before global networks', () => {
+      const labelled = { labels: { 'dockhand-tavern.network': 'macvlan, ipvlan' } } as unknown as DockhandContainer;
+      expect(getPreferredNetworks(labelled, ['dhcp-ext', 'macvlan'])).toEqual(['macvlan', 'ipvlan', 'dhcp-ext']);
+    });
+
+    test('uses global networks without label', () => {
+      expect(getPreferredNetworks(container, ['dhcp-ext'])).toEqual(['dhcp-ext']);
+    });
+  });
+
+  describe('resolveTarget', () => {
+    test('uses network IP on port 80 without published ports', () => {
+      expect(resolveTarget(container, env, ['macvlan'])).toEqual({ host: '192.168.1.50', port: 80 });
+    });
+
+    test('uses network IP with port label', () => {
+      const labelled = { ...container, labels: { 'dockhand-tavern.port': '8096' } };
+      expect(resolveTarget(labelled, env, ['macvlan'])).toEqual({ host: '192.168.1.50', port: 8096 });
+    });
+
+    test('network label overrides global preference', () => {
+      const labelled = { ...container, labels: { 'dockhand-tavern.network': 'macvlan' } };
+      expect(resolveTarget(labelled, env, ['dhcp-ext'])).toEqual({ host: '192.168.1.50', port: 80 });
+    });
+
+    test('prefers published port over network IP without port label', () => {
+      const published = {
+        ...container,
+        ports: [{ IP: '0.0.0.0', PrivatePort: 80, PublicPort: 8080, Type: 'tcp' }],
+      } as DockhandContainer;
+      expect(resolveTarget(published, env, ['macvlan'])).toEqual({ host: '192.168.1.100', port: 8080 });
+    });
+
+    test('returns null without published ports or network IP', () => {
+      expect(resolveTarget(container, env, ['missing'])).toBeNull();
+    });
+  });
+
+  test('card URL and NPM lookup use the same target', () => {
+    const labelled = { ...container, id: 'c1', state: 'running', labels: { 'dockhand-tavern.port': '8096' } } as DockhandContainer;
+    const hosts = [
+      { forward_host: '192.168.1.50', forward_port: 8096, domain_names: ['media.example.com'], ssl_forced: true, enabled: true },
+    ] as NpmProxyHost[];
+
+    expect(processContainer(labelled, env, [], undefined, { preferredNetworks: ['macvlan'] })!.url).toBe('http://192.168.1.50:8096');
+    expect(processContainer(labelled, env, hosts, undefined, { preferredNetworks: ['macvlan'] })!.url).toBe('https://media.example.com');
+    expect(findNpmProxyHostForContainer(labelled, env, hosts, ['macvlan'])?.domain_names[0]).toBe('media.example.com');
+  });
+});
+
+describe('bookmarks', () => {
+  const router = {
+    name: 'Router',
+    url: 'http://192.168.1.1',
+    group: 'Network',
+    description: 'Fritz!Box admin UI',
+    tags: ['network', 'lan'],
+  };
+
+  describe('parseTcpTarget', () => {
+    test('parses host:port', () => {
+      expect(parseTcpTarget('nas.local:22')).toEqual({ host: 'nas.local', port: 22 });
+      expect(parseTcpTarget('[fd00::1]:443')).toEqual({ host: 'fd00::1', port: 443 });
+    });
+
+    test('derives port from URL scheme', () => {
+      expect(parseTcpTarget('http://192.168.1.1')).toEqual({ host: '192.168.1.1', port: 80 });
+      expect(parseTcpTarget('https://nas.local/admin')).toEqual({ host: 'nas.local', port: 443 });
+      expect(parseTcpTarget('https://nas.local:5001')).toEqual({ host: 'nas.local', port: 5001 });
+    });
+
+    test('rejects targets without port or with invalid port', () => {
+      expect(parseTcpTarget('nas.local')).toBeNull();
+      expect(parseTcpTarget('nas.local:70000')).toBeNull();
+      expect(parseTcpTarget('ftp://nas.local')).toBeNull();
+    });
+  });
+
+  describe('isIpInRanges', () => {
+    test('matches addresses and CIDR ranges', () => {
+      expect(isIpInRanges('172.18.0.2', ['172.18.0.0/16'])).toBe(true);
+      expect(isIpInRanges('172.19.0.2', ['172.18.0.0/16'])).toBe(false);
+      expect(isIpInRanges('10.0.0.5', ['10.0.0.5'])).toBe(true);
+      expect(isIpInRanges('10.0.0.6', ['10.0.0.5'])).toBe(false);
+      expect(isIpInRanges('fd00::1:2', ['fd00::/8'])).toBe(true);
+      expect(isIpInRanges('fe80::1', ['fd00::/8'])).toBe(false);
+      expect(isIpInRanges('::ffff:192.168.1.20', ['192.168.1.0/24'])).toBe(true);
+    });
+
+    test('never matches invalid addresses or ranges', () => {
+      expect(isIpInRanges('unknown', ['0.0.0.0/0'])).toBe(false);
+      expect(isIpInRanges('10.0.0.5', ['proxy', '10.0.0.0/33'])).toBe(false);
+      expect(isIpInRanges('::1', ['0.0.0.0/0'])).toBe(false);
+    });
+
+    test('parseIpRange rejects malformed ranges', () => {
+      expect(parseIpRange('10.0.0.0/8')).toEqual({ bytes: [10, 0, 0, 0], prefix: 8 });
+      expect(parseIpRange('10.0.0.0/')).toBeNull();
+      expect(parseIpRange('10.0.0.0/8/8')).toBeNull();
+      expect(parseIpRange('2001:db8::/129')).toBeNull();
+    });
+  });
+
+  test('processBookmark keeps description and tags', () => {
+    const bookmark = processBookmark(router);
+
+    expect(bookmark.id).toBe(getBookmarkId(router));
+    expect(bookmark.description).toBe('Fritz!Box admin UI');
+    expect(bookmark.tags).toEqual(['network', 'lan']);
+    expect(bookmark.health).toBeUndefined();
+  });
+
+  test('processBookmark marks checked bookmarks as starting', () => {
+    const bookmark = processBookmark({ ...router, check: { type: 'http' } });
+    expect(bookmark.health).toBe('starting');
+  });
+
+  test('bookmarkToContainer describes a running container with the bookmark URL', () => {
+    const { container, env } = bookmarkToContainer(router);
+
+    expect(container.id).toBe(getBookmarkId(router));
+    expect(container.state).toBe('running');
+    expect(container.labels).toEqual({
+      'dockhand-tavern.name': 'Router',
+      'dockhand-tavern.url': 'http://192.168.1.1',
+      'dockhand-tavern.group': 'Network',
+    });
+    expect(getOwnerKey(env.id, container.name)).toBe('-1/Router');
+  });
+
+  test('search matches description and tags', () => {
+    const containers = [processBookmark(router), processBookmark({ name: 'GitHub', url: 'https://github.com' })];
+
+    expect(filterContainers(containers, { search: 'fritz' }).map(c => c.displayName)).toEqual(['Router']);
+    expect(filterContainers(containers, { search: 'LAN' }).map(c => c.displayName)).toEqual(['Router']);
+    expect(filterContainers(containers, { search: 'git' }).map(c => c.displayName)).toEqual(['GitHub']);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  test('keeps at most limit calls in flight and preserves order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async delay => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await Bun.sleep(delay);
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results.map(result => result.status === 'fulfilled' && result.value)).toEqual([60, 20, 40, 10, 30]);
+  });
+
+  test('failing calls do not stop the others', async () => {
+    const results = await mapWithConcurrency([1, 2, 3], 2, async n => {
+      if (n === 2) throw new Error('boom');
+      return n;
+    });
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results[1].status === 'rejected' && results[1].reason.message).toBe('boom');
+  });
+
+  test('handles empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('getPollDelay', () => {
+  test('uses the interval while Dockhand is reachable', () => {
+    expect(getPollDelay(60, 900, 0)).toBe(60);
+  });
+
+  test('doubles with every consecutive failure up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(failures => getPollDelay(60, 900, failures))).toEqual([120, 240, 480, 900, 900]);
+  });
+
+  test('never goes below the interval', () => {
+    expect(getPollDelay(600, 300, 2)).toBe(600);
+  });
+});
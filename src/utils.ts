@@ -2,14 +2,24 @@
  * Data processing utilities
  */
 
+import { isIP } from 'node:net';
 import type {
   DockhandContainer,
   DockhandEnvironment,
   DockhandPort,
   ProcessedContainer,
   FilterOptions,
+  ProcessOptions,
   NpmProxyHost,
+  OwnedResource,
+  ContainerDiff,
+  ContainerLink,
+  ContainerTarget,
+  BookmarkConfig,
+  NpmDomainConfig,
+  CertificateWarning,
 } from './types';
+import type { NpmAccessList, NpmCertificate, NpmProxySettings } from './npm-types';
 import { logger } from './logger';
 
 /**
@@ -42,26 +52,164 @@ export function extractPorts(ports: DockhandPort[]): number[] {
 }
 
 /**
- * Extract network IP address from dhcp-ext network only
- * Returns null if no valid dhcp-ext network IP found
+ * Find the published host port for a port number
+ * Accepts either the published (public) port or the container (private) port
+ * Returns null if the port is not published
  */
-export function extractNetworkIp(networks: Record<string, { ipAddress: string }>): string | null {
-  // Only look for dhcp-ext network
-  const dhcpExtNetwork = networks['dhcp-ext'];
-  
-  if (!dhcpExtNetwork) {
-    return null;
+export function findPublishedPort(ports: DockhandPort[], port: number): number | null {
+  const published = extractPorts(ports);
+
+  if (published.includes(port)) {
+    return port;
   }
-  
-  const ip = dhcpExtNetwork.ipAddress;
-  
-  // Skip empty or invalid IPs
-  if (!ip || ip === '' || ip === '0.0.0.0') {
-    return null;
+
+  const mapping = ports.find(
+    entry => entry.PrivatePort === port && entry.PublicPort && published.includes(entry.PublicPort)
+  );
+  return mapping ? mapping.PublicPort! : null;
+}
+
+/**
+ * Resolve the published port a container is reached on
+ * Used for the card URL, NPM proxy hosts and Peekaping monitors alike
+ * Priority: dockhand-tavern.port label (public or container port) > lowest published port
+ */
+export function resolveTargetPort(container: DockhandContainer): number | null {
+  const ports = extractPorts(container.ports);
+  const portLabel = container.labels?.['dockhand-tavern.port'];
+
+  if (portLabel) {
+    const wanted = parseInt(portLabel, 10);
+    const published = isNaN(wanted) ? null : findPublishedPort(container.ports, wanted);
+    if (published) {
+      return published;
+    }
+    logger.debug(`[Utils] Container ${container.name}: port label "${portLabel}" is not a published port`);
   }
-  
-  logger.debug('[Utils] Found dhcp-ext network IP:', ip);
-  return ip;
+
+  return ports.length > 0 ? ports[0] : null;
+}
+
+/**
+ * Extract secondary links from dockhand-tavern.links.<name> labels
+ * Values can be a full URL, a port (published or container port) or a path relative to the primary URL
+ * Invalid values are skipped with a warning
+ */
+export function extractLinks(
+  container: DockhandContainer,
+  primaryUrl: string | null,
+  envPublicIp: string,
+  npmProxyHosts?: NpmProxyHost[]
+): ContainerLink[] {
+  const prefix = 'dockhand-tavern.links.';
+  const links: ContainerLink[] = [];
+
+  for (const [key, rawValue] of Object.entries(container.labels || {})) {
+    if (!key.startsWith(prefix)) continue;
+
+    const name = key.slice(prefix.length).trim();
+    const value = rawValue.trim();
+    if (!name || !value) continue;
+
+    let url: string | null = null;
+
+    if (/^https?:\/\//i.test(value)) {
+      url = value;
+    } else if (/^\d+$/.test(value)) {
+      const port = findPublishedPort(container.ports, parseInt(value, 10));
+      if (port) {
+        url = (npmProxyHosts && findNpmProxyUrl(envPublicIp, port, npmProxyHosts)) || `http://${envPublicIp}:${port}`;
+      }
+    } else if (value.startsWith('/')) {
+      if (!primaryUrl) {
+        continue; // Nothing to append the path to until the container has an address again
+      }
+      url = `${primaryUrl.replace(/\/+$/, '')}${value}`;
+    }
+
+    if (!url) {
+      logger.warn(`[Utils] Container ${container.name}: ignoring link "${name}" with invalid target "${value}"`);
+      continue;
+    }
+
+    links.push({ name, url });
+  }
+
+  return links.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Networks checked for a container IP when no other list is configured (PREFERRED_NETWORKS)
+ */
+export const DEFAULT_PREFERRED_NETWORKS = ['dhcp-ext'];
+
+/**
+ * Extract network IP address from the first preferred network the container is attached to
+ * Returns null if none of the networks has a valid IP
+ */
+export function extractNetworkIp(
+  networks: Record<string, { ipAddress: string }>,
+  preferredNetworks: string[] = DEFAULT_PREFERRED_NETWORKS
+): string | null {
+  for (const name of preferredNetworks) {
+    const ip = networks[name]?.ipAddress;
+
+    // Skip empty or invalid IPs
+    if (!ip || ip === '0.0.0.0') {
+      continue;
+    }
+
+    logger.debug(`[Utils] Found ${name} network IP:`, ip);
+    return ip;
+  }
+
+  return null;
+}
+
+/**
+ * Get the ordered list of networks to look for a container IP
+ * Networks from the dockhand-tavern.network label (comma-separated) come first,
+ * followed by the global list as fallback
+ */
+export function getPreferredNetworks(container: DockhandContainer, globalNetworks: string[]): string[] {
+  const fromLabel = (container.labels?.['dockhand-tavern.network'] || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+
+  return [...fromLabel, ...globalNetworks.filter(name => !fromLabel.includes(name))];
+}
+
+/**
+ * Resolve host and port a container is reached on
+ * Shared by the card URL, NPM forward targets and Peekaping monitor URLs
+ * Priority:
+ * 1) Network IP with dockhand-tavern.port label
+ * 2) Environment public IP with published port (see resolveTargetPort)
+ * 3) Network IP on port 80
+ */
+export function resolveTarget(
+  container: DockhandContainer,
+  environment: DockhandEnvironment,
+  preferredNetworks: string[] = DEFAULT_PREFERRED_NETWORKS
+): ContainerTarget | null {
+  const networkIp = extractNetworkIp(container.networks || {}, getPreferredNetworks(container, preferredNetworks));
+  const labelPort = parseInt(container.labels?.['dockhand-tavern.port'] || '', 10);
+
+  if (networkIp && !isNaN(labelPort)) {
+    return { host: networkIp, port: labelPort };
+  }
+
+  const targetPort = resolveTargetPort(container);
+  if (targetPort) {
+    return { host: environment.publicIp, port: targetPort };
+  }
+
+  if (networkIp) {
+    return { host: networkIp, port: 80 };
+  }
+
+  return null;
 }
 
 /**
@@ -107,18 +255,16 @@ export function findNpmProxyUrl(
  * Priority: 
  * 1) dockhand-tavern.url label (custom URL)
  * 2) Auto-created NPM domain (from NPM auto-creation)
- * 3) dockhand-tavern.port with networkIP
- * 4) Existing NPM proxy host (manual entry)
- * 5) Default http://IP:port (fallback)
+ * 3) Existing NPM proxy host forwarding to the target (manual entry)
+ * 4) Default http://host:port of the target (see resolveTarget)
+ * Returns null without label, domain or target (stopped containers have no published ports)
  */
 export function buildContainerUrl(
   container: DockhandContainer,
-  firstPort: number | null,
-  envPublicIp: string,
-  networkIp: string | null,
+  target: ContainerTarget | null,
   npmProxyHosts?: NpmProxyHost[],
   autoCreatedDomain?: string
-): string {
+): string | null {
   // 1. Check for custom URL label (highest priority)
   const customUrl = container.labels?.['dockhand-tavern.url'];
   if (customUrl) {
@@ -132,31 +278,21 @@ export function buildContainerUrl(
     return `https://${autoCreatedDomain}`;
   }
 
-  // 3. Check for custom port label with network IP (third priority)
-  const customPort = container.labels?.['dockhand-tavern.port'];
-  if (customPort && networkIp) {
-    return `http://${networkIp}:${customPort}`;
-  }
-
-  // 4. If we have an exposed port, check NPM proxy hosts for match (fourth priority)
-  if (firstPort && npmProxyHosts && npmProxyHosts.length > 0) {
-    const npmUrl = findNpmProxyUrl(envPublicIp, firstPort, npmProxyHosts);
+  // 3. Check NPM proxy hosts for one forwarding to the target (third priority)
+  if (target && npmProxyHosts && npmProxyHosts.length > 0) {
+    const npmUrl = findNpmProxyUrl(target.host, target.port, npmProxyHosts);
     if (npmUrl) {
       return npmUrl;
     }
   }
 
-  // 5. Build URL based on what's available (fallback)
-  if (firstPort) {
-    // Has exposed port: use environment public IP with port
-    return `http://${envPublicIp}:${firstPort}`;
-  } else if (networkIp) {
-    // No exposed port but has network IP: use network IP (default port 80)
-    return `http://${networkIp}`;
+  // 4. Build URL from target (fallback)
+  if (target) {
+    return target.port === 80 ? `http://${target.host}` : `http://${target.host}:${target.port}`;
   }
-  
-  // Fallback (shouldn't happen if validation is correct)
-  return `http://${envPublicIp}`;
+
+  // No address known (e.g. a stopped container), the card is rendered without a link
+  return null;
 }
 
 /**
@@ -196,6 +332,101 @@ export function resolveIconUrl(
   return `https://cdn.jsdelivr.net/gh/selfhst/icons/png/${finalIconName}.png`;
 }
 
+/**
+ * Extract human readable uptime from Docker status text
+ * "Up 3 hours (healthy)" → "3 hours", "Exited (0) 2 minutes ago" → null
+ */
+export function extractUptime(status: string | undefined): string | null {
+  const match = status?.match(/^Up\s+(.+?)(\s+\(.*\))?$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Extract exit status from Docker status text
+ * "Exited (137) 2 hours ago" → 137, "Up 3 hours" → null
+ */
+export function extractExitCode(status: string | undefined): number | null {
+  const match = status?.match(/^Exited\s+\((-?\d+)\)/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Check whether a non-running container should still be shown
+ * The dockhand-tavern.show-stopped label overrides the global setting in both directions
+ */
+export function shouldShowStopped(container: DockhandContainer, showStoppedDefault: boolean): boolean {
+  const label = container.labels?.['dockhand-tavern.show-stopped'];
+  if (label === 'true') return true;
+  if (label === 'false') return false;
+  return showStoppedDefault;
+}
+
+/**
+ * Check whether a container looks like it is stuck in a restart loop
+ */
+export function hasRestartWarning(
+  container: Pick<DockhandContainer, 'state' | 'restartCount'>,
+  threshold: number
+): boolean {
+  return container.state === 'restarting' || (container.restartCount || 0) >= threshold;
+}
+
+/**
+ * Expand indexed labels (dockhand-tavern.0.name, dockhand-tavern.1.port, ...) into one
+ * virtual container per index, so a container hosting several apps gets several cards,
+ * proxy hosts and monitors. Containers without indexed labels are returned unchanged.
+ *
+ * Entries inherit all labels of the container except name, url, port and links,
+ * which are entry-specific. Virtual containers get "#N" appended to ID and name
+ * (Docker names never contain "#"), which keeps ownership keys unique per entry.
+ */
+export function expandIndexedLabels(container: DockhandContainer): DockhandContainer[] {
+  const labels = container.labels || {};
+  const indexPattern = /^dockhand-tavern\.(\d+)\.(.+)$/;
+  const entries = new Map<number, Record<string, string>>();
+
+  for (const [key, value] of Object.entries(labels)) {
+    const match = key.match(indexPattern);
+    if (!match) continue;
+
+    const index = parseInt(match[1], 10);
+    if (!entries.has(index)) {
+      entries.set(index, {});
+    }
+    entries.get(index)![`dockhand-tavern.${match[2]}`] = value;
+  }
+
+  if (entries.size === 0) {
+    return [container];
+  }
+
+  const entrySpecific = (key: string) =>
+    ['dockhand-tavern.name', 'dockhand-tavern.url', 'dockhand-tavern.port', 'dockhand-tavern.proxy.port'].includes(key) ||
+    key.startsWith('dockhand-tavern.links.');
+
+  const baseLabels: Record<string, string> = {};
+  for (const [key, value] of Object.entries(labels)) {
+    if (!indexPattern.test(key) && !entrySpecific(key)) {
+      baseLabels[key] = value;
+    }
+  }
+
+  const baseName = labels['dockhand-tavern.name'] || labels['com.docker.compose.service'] || container.name;
+
+  return Array.from(entries.keys())
+    .sort((a, b) => a - b)
+    .map(index => ({
+      ...container,
+      id: `${container.id}#${index}`,
+      name: `${container.name}#${index}`,
+      labels: {
+        ...baseLabels,
+        'dockhand-tavern.name': `${baseName}-${index}`,
+        ...entries.get(index)!,
+      },
+    }));
+}
+
 /**
  * Process raw container into display format
  */
@@ -203,7 +434,8 @@ export function processContainer(
   container: DockhandContainer,
   environment: DockhandEnvironment,
   npmProxyHosts?: NpmProxyHost[],
-  autoCreatedDomain?: string
+  autoCreatedDomain?: string,
+  options: ProcessOptions = {}
 ): ProcessedContainer | null {
   // Debug: Log all dockhand-tavern labels
   const tavernLabels = Object.entries(container.labels || {})
@@ -223,17 +455,18 @@ export function processContainer(
     return null; // Hide from dashboard only
   }
 
-  // Only show running containers
-  if (container.state !== 'running') {
+  // Only show running containers, unless stopped containers are shown
+  const isRunning = container.state === 'running';
+  if (!isRunning && !shouldShowStopped(container, options.showStopped ?? false)) {
     return null;
   }
 
-  // Extract ports and network IP
-  const ports = extractPorts(container.ports);
-  const networkIp = extractNetworkIp(container.networks);
+  // Resolve target from published ports or network IP
+  const target = resolveTarget(container, environment, options.preferredNetworks);
 
   // Skip containers with no exposed ports AND no network IP
-  if (ports.length === 0 && !networkIp) {
+  // (stopped containers never report published ports, so keep them anyway)
+  if (isRunning && !target) {
     logger.debug(`[Utils] Skipping container ${container.name}: no exposed ports or network IP`);
     return null;
   }
@@ -250,8 +483,8 @@ export function processContainer(
   const icon = container.labels?.['dockhand-tavern.icon'];
 
   // Build URL from port or network IP
-  const firstPort = ports.length > 0 ? ports[0] : null;
-  const url = buildContainerUrl(container, firstPort, environment.publicIp, networkIp, npmProxyHosts, autoCreatedDomain);
+  const url = buildContainerUrl(container, target, npmProxyHosts, autoCreatedDomain);
+  const links = extractLinks(container, url, environment.publicIp, npmProxyHosts);
 
   // Resolve icon URL
   const iconUrl = resolveIconUrl(icon, displayName);
@@ -265,10 +498,19 @@ export function processContainer(
       name: environment.name,
       publicIp: environment.publicIp,
     },
-    url,
+    url: url ?? undefined,
+    links: links.length > 0 ? links : undefined,
     icon,
     iconUrl,
     image: container.image,
+    state: container.state,
+    status: container.status,
+    health: container.health || undefined,
+    uptime: extractUptime(container.status) ?? undefined,
+    restartCount: container.restartCount,
+    restartWarning: hasRestartWarning(container, options.restartWarningThreshold ?? 5),
+    created: container.created,
+    exitCode: extractExitCode(container.status) ?? undefined,
   };
 }
 
@@ -281,11 +523,12 @@ export function filterContainers(
 ): ProcessedContainer[] {
   let filtered = containers;
 
-  // Filter by search (display name)
+  // Filter by search (display name, bookmark description and tags)
   if (filters.search) {
     const searchLower = filters.search.toLowerCase();
     filtered = filtered.filter(
-      (c) => c.displayName.toLowerCase().includes(searchLower)
+      (c) => [c.displayName, c.description, ...(c.tags || [])]
+        .some(text => text?.toLowerCase().includes(searchLower))
     );
   }
 
@@ -299,9 +542,105 @@ export function filterContainers(
     filtered = filtered.filter((c) => c.environment.name === filters.env);
   }
 
+  // Filter unhealthy containers
+  if (filters.unhealthy) {
+    filtered = filtered.filter((c) => c.health === 'unhealthy');
+  }
+
+  // Hide stopped containers (bookmarks have no state and are always kept)
+  if (filters.hideStopped) {
+    filtered = filtered.filter((c) => !c.state || c.state === 'running');
+  }
+
   return filtered;
 }
 
+/**
+ * Comparison key of a card for live updates
+ * Docker's relative status text ("Up 3 minutes") and the monitor's last heartbeat change without
+ * any state change and are left out, the 24h uptime only counts in tenths of a percent.
+ * They are brought up to date by the next real change of the card or a page load
+ */
+function getDiffKey(container: ProcessedContainer): string {
+  const { status, uptime, monitor, ...rest } = container;
+  return JSON.stringify({
+    ...rest,
+    monitor: monitor && {
+      monitorId: monitor.monitorId,
+      status: monitor.status,
+      uptime24h: monitor.uptime24h !== undefined ? Math.floor(monitor.uptime24h * 10) / 10 : undefined,
+    },
+  });
+}
+
+/**
+ * Compute added, removed and changed containers between two snapshots
+ * Containers are matched by ID, any field change shown on the card counts as changed (see getDiffKey)
+ */
+export function diffContainers(
+  previous: ProcessedContainer[],
+  next: ProcessedContainer[]
+): ContainerDiff {
+  const previousById = new Map(previous.map(c => [c.id, c]));
+  const nextIds = new Set(next.map(c => c.id));
+
+  const diff: ContainerDiff = { added: [], removed: [], changed: [] };
+
+  for (const container of next) {
+    const before = previousById.get(container.id);
+    if (!before) {
+      diff.added.push(container);
+    } else if (getDiffKey(before) !== getDiffKey(container)) {
+      diff.changed.push(container);
+    }
+  }
+
+  for (const container of previous) {
+    if (!nextIds.has(container.id)) {
+      diff.removed.push(container.id);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Run an async function for every item with at most `limit` calls in flight
+ * Results keep the order of the items; a failing call does not stop the others
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Delay until the next periodic refresh (seconds)
+ * Doubles with every consecutive failed refresh, capped at maxInterval
+ */
+export function getPollDelay(interval: number, maxInterval: number, consecutiveFailures: number): number {
+  const delay = interval * 2 ** consecutiveFailures;
+  return Math.min(delay, Math.max(maxInterval, interval));
+}
+
 /**
  * Get unique group names from containers
  */
@@ -463,6 +802,62 @@ export function isDomainCoveredByCertificate(
   return false;
 }
 
+/**
+ * Select the base domain for a container's auto-created proxy host
+ * Priority: dockhand-tavern.domain label, domain mapped to the container's environment, default domain
+ * Returns null if the label names an unknown domain or no domain applies to the environment
+ */
+export function selectBaseDomain(
+  container: DockhandContainer,
+  env: DockhandEnvironment,
+  domains: NpmDomainConfig[]
+): NpmDomainConfig | null {
+  const label = container.labels?.['dockhand-tavern.domain']?.trim().toLowerCase();
+  if (label) {
+    return domains.find(entry => entry.domain.toLowerCase() === label) ?? null;
+  }
+
+  return domains.find(entry => entry.environments?.includes(env.name))
+    ?? domains.find(entry => !entry.environments)
+    ?? null;
+}
+
+/**
+ * Find the certificate for a proxy host domain
+ * Tries the preferred base domain's certificate first, then every other configured one.
+ * Certificates with known domains must cover the domain (see isDomainCoveredByCertificate);
+ * if a certificate's domains could not be fetched, the domain must belong to its base domain.
+ *
+ * @param certificateDomains Certificate ID → domains covered by the certificate
+ * @returns Certificate ID, or null if no configured certificate fits
+ */
+export function findCertificateForDomain(
+  domain: string,
+  domains: NpmDomainConfig[],
+  certificateDomains: Map<number, string[]>,
+  preferred: NpmDomainConfig | null = null
+): number | null {
+  const domainLower = domain.toLowerCase();
+  const candidates = preferred ? [preferred, ...domains.filter(entry => entry !== preferred)] : domains;
+
+  for (const candidate of candidates) {
+    const covered = certificateDomains.get(candidate.certificateId);
+    if (covered && covered.length > 0) {
+      if (isDomainCoveredByCertificate(domainLower, covered)) {
+        return candidate.certificateId;
+      }
+      continue;
+    }
+
+    const baseDomain = candidate.domain.toLowerCase();
+    if (domainLower === baseDomain || domainLower.endsWith(`.${baseDomain}`)) {
+      return candidate.certificateId;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Extract domain from URL for NPM auto-creation
  * Returns the domain if valid, or null if URL should be skipped
@@ -554,6 +949,56 @@ export function buildDomainName(serviceName: string, baseDomain: string): string
   return `${sanitized}.${baseDomain}`;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Find the certificates of proxied containers that expire within the warning threshold
+ * A container uses the certificate of the NPM proxy host its (https) URL points to
+ * @returns Warnings sorted by expiry, soonest first
+ */
+export function getCertificateWarnings(
+  certificates: NpmCertificate[],
+  containers: ProcessedContainer[],
+  npmProxyHosts: NpmProxyHost[],
+  warningDays: number,
+  now: Date = new Date()
+): CertificateWarning[] {
+  const usage = new Map<number, string[]>(); // certificateId → container IDs
+  for (const container of containers) {
+    if (!container.url?.startsWith('https://')) {
+      continue;
+    }
+    const hostname = container.url.slice('https://'.length).split(/[/:?#]/)[0].toLowerCase();
+    const host = findProxyHostByDomain(hostname, npmProxyHosts);
+    if (host && host.certificate_id > 0) {
+      usage.set(host.certificate_id, [...(usage.get(host.certificate_id) ?? []), container.id]);
+    }
+  }
+
+  return certificates
+    .filter(certificate => usage.has(certificate.id) && !certificate.is_deleted)
+    .map(certificate => ({ certificate, expiresOn: new Date(certificate.expires_on) }))
+    .filter(({ expiresOn }) => !isNaN(expiresOn.getTime()) && expiresOn.getTime() - now.getTime() <= warningDays * DAY_MS)
+    .sort((a, b) => a.expiresOn.getTime() - b.expiresOn.getTime())
+    .map(({ certificate, expiresOn }) => ({
+      id: certificate.id,
+      name: certificate.nice_name || certificate.domain_names[0] || `#${certificate.id}`,
+      domains: certificate.domain_names,
+      expiresOn,
+      daysLeft: Math.floor((expiresOn.getTime() - now.getTime()) / DAY_MS),
+      containers: usage.get(certificate.id)!,
+    }));
+}
+
+/**
+ * Find an NPM access list by name (dockhand-tavern.access label)
+ * Names are compared case-insensitively, returns null for unknown names
+ */
+export function findAccessListByName(name: string, accessLists: NpmAccessList[]): NpmAccessList | null {
+  const wanted = name.trim().toLowerCase();
+  return accessLists.find(list => list.name.trim().toLowerCase() === wanted) ?? null;
+}
+
 /**
  * Find NPM proxy host by domain name
  * Returns the proxy host if domain exists in domain_names array, null otherwise
@@ -569,33 +1014,200 @@ export function findProxyHostByDomain(
   return match || null;
 }
 
+/**
+ * Proxy host settings used when a container has no dockhand-tavern.proxy.* labels
+ */
+export const DEFAULT_PROXY_SETTINGS: NpmProxySettings = {
+  forward_scheme: 'http',
+  allow_websocket_upgrade: true,
+  caching_enabled: false,
+  block_exploits: true,
+  hsts_enabled: true,
+  hsts_subdomains: false,
+  advanced_config: '',
+};
+
+// Boolean dockhand-tavern.proxy.<name> labels and the proxy host field they set
+const PROXY_BOOLEAN_LABELS = {
+  websocket: 'allow_websocket_upgrade',
+  caching: 'caching_enabled',
+  'block-exploits': 'block_exploits',
+  hsts: 'hsts_enabled',
+  'hsts-subdomains': 'hsts_subdomains',
+} as const;
+
+// Longest accepted advanced config snippet
+const MAX_ADVANCED_CONFIG_LENGTH = 8192;
+
+/**
+ * Read proxy host settings from dockhand-tavern.proxy.* labels
+ * (scheme, port, websocket, caching, block-exploits, hsts, hsts-subdomains, advanced-config)
+ * Every invalid or unknown label is reported, the caller skips the proxy host if there are any
+ */
+export function parseProxyLabels(labels: Record<string, string> = {}): { settings: NpmProxySettings; problems: string[] } {
+  const prefix = 'dockhand-tavern.proxy.';
+  const settings: NpmProxySettings = { ...DEFAULT_PROXY_SETTINGS };
+  const problems: string[] = [];
+
+  for (const [key, rawValue] of Object.entries(labels)) {
+    if (!key.startsWith(prefix)) continue;
+
+    const name = key.slice(prefix.length);
+    const value = rawValue.trim();
+
+    if (name === 'scheme') {
+      const scheme = value.toLowerCase();
+      if (scheme === 'http' || scheme === 'https') {
+        settings.forward_scheme = scheme;
+      } else {
+        problems.push(`"${key}" must be http or https, got "${value}"`);
+      }
+    } else if (name === 'port') {
+      const port = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+      if (port >= 1 && port <= 65535) {
+        settings.forward_port = port;
+      } else {
+        problems.push(`"${key}" must be a port between 1 and 65535, got "${value}"`);
+      }
+    } else if (name === 'advanced-config') {
+      const problem = validateAdvancedConfig(rawValue);
+      if (problem) {
+        problems.push(`"${key}" ${problem}`);
+      } else {
+        settings.advanced_config = rawValue.trim();
+      }
+    } else if (name in PROXY_BOOLEAN_LABELS) {
+      const normalized = value.toLowerCase();
+      if (normalized === 'true' || normalized === 'false') {
+        settings[PROXY_BOOLEAN_LABELS[name as keyof typeof PROXY_BOOLEAN_LABELS]] = normalized === 'true';
+      } else {
+        problems.push(`"${key}" must be true or false, got "${value}"`);
+      }
+    } else {
+      problems.push(`unknown label "${key}"`);
+    }
+  }
+
+  if (settings.hsts_subdomains && !settings.hsts_enabled) {
+    problems.push(`"${prefix}hsts-subdomains" requires HSTS (${prefix}hsts is false)`);
+  }
+
+  return { settings, problems };
+}
+
+/**
+ * Check an nginx snippet for the advanced config of a proxy host
+ * Returns what is wrong with it, or null if it looks usable
+ */
+function validateAdvancedConfig(config: string): string | null {
+  if (config.length > MAX_ADVANCED_CONFIG_LENGTH) {
+    return `is longer than ${MAX_ADVANCED_CONFIG_LENGTH} characters`;
+  }
+
+  let depth = 0;
+  for (const char of config) {
+    if (char === '{') depth++;
+    if (char === '}' && --depth < 0) break;
+  }
+  if (depth !== 0) {
+    return 'has unbalanced braces';
+  }
+
+  const lastStatement = config.trim().split('\n').pop()!.trim();
+  if (lastStatement && !lastStatement.endsWith(';') && !lastStatement.endsWith('}') && !lastStatement.startsWith('#')) {
+    return 'must end with ";" or "}"';
+  }
+
+  return null;
+}
+
+/**
+ * Proxy host fields that differ from the label settings (forward port excluded)
+ * Used to reconcile hosts created by Tavern after their labels changed
+ */
+export function getProxySettingChanges(host: NpmProxyHost, settings: NpmProxySettings): Partial<NpmProxySettings> {
+  const changes: Partial<NpmProxySettings> = {};
+
+  if (host.forward_scheme !== settings.forward_scheme) {
+    changes.forward_scheme = settings.forward_scheme;
+  }
+  if ((host.advanced_config ?? '').trim() !== settings.advanced_config) {
+    changes.advanced_config = settings.advanced_config;
+  }
+  for (const field of Object.values(PROXY_BOOLEAN_LABELS)) {
+    // Older NPM versions return 0/1 instead of booleans
+    if (Boolean(host[field]) !== settings[field]) {
+      changes[field] = settings[field];
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Find NPM proxy host for a container
- * Matches by environment IP and container's first exposed port
+ * Matches by the container's target host and port (see resolveTarget), or the
+ * dockhand-tavern.proxy.port override the proxy host was created with
  * Returns the proxy host if found, undefined otherwise
  */
 export function findNpmProxyHostForContainer(
   container: DockhandContainer,
   env: DockhandEnvironment,
-  npmProxyHosts: NpmProxyHost[]
+  npmProxyHosts: NpmProxyHost[],
+  preferredNetworks: string[] = DEFAULT_PREFERRED_NETWORKS
 ): NpmProxyHost | undefined {
-  // Extract ports from container
-  const ports = extractPorts(container.ports);
-  if (ports.length === 0) {
+  const target = resolveTarget(container, env, preferredNetworks);
+  if (!target) {
     return undefined;
   }
 
-  // Get first exposed port
-  const firstPort = ports[0];
-  const targetIp = env.publicIp;
-
   // Find matching NPM proxy host
+  const port = parseProxyLabels(container.labels).settings.forward_port ?? target.port;
   return npmProxyHosts.find(host =>
-    host.forward_host === targetIp &&
-    host.forward_port === firstPort
+    host.forward_host === target.host &&
+    host.forward_port === port
   );
 }
 
+/**
+ * Build the ownership key for a container
+ * Uses environment ID and container name because container IDs change
+ * every time a stack is re-deployed
+ */
+export function getOwnerKey(environmentId: number, containerName: string): string {
+  return `${environmentId}/${containerName}`;
+}
+
+/**
+ * Classify an owned resource for cleanup
+ * - present: container still exists
+ * - unknown: environment was not fetched successfully, container state is unknown
+ * - missing: container is gone but the grace period has not passed yet
+ * - expired: container has been gone for longer than the grace period
+ */
+export function classifyOwnedResource(
+  resource: OwnedResource,
+  presentKeys: Set<string>,
+  checkedEnvironmentIds: Set<number>,
+  now: Date,
+  gracePeriodMs: number
+): 'present' | 'unknown' | 'missing' | 'expired' {
+  if (presentKeys.has(resource.key)) {
+    return 'present';
+  }
+
+  if (!checkedEnvironmentIds.has(resource.environmentId)) {
+    return 'unknown';
+  }
+
+  if (!resource.missingSince) {
+    return 'missing';
+  }
+
+  const missingFor = now.getTime() - new Date(resource.missingSince).getTime();
+  return missingFor >= gracePeriodMs ? 'expired' : 'missing';
+}
+
 /**
  * Generate consistent color for tag using hash algorithm
  * Duplicates the frontend algorithm from app.js for consistency
@@ -633,76 +1245,167 @@ export function generateTagColor(name: string): string {
 }
 
 /**
- * Parse BOOKMARKS environment variable into ProcessedContainer objects
- * Expected format: [{"name":"Foo","url":"https://example.com","icon":"optional","group":"optional"}]
+ * Stable ID of a bookmark card, derived from its name and URL
  */
-export function parseBookmarks(): ProcessedContainer[] {
-  const bookmarksEnv = process.env.BOOKMARKS;
-  
-  if (!bookmarksEnv) {
-    return [];
+export function getBookmarkId(entry: BookmarkConfig): string {
+  return `bookmark-${entry.name}-${entry.url}`;
+}
+
+/**
+ * Parse a TCP check target: "host:port" or a URL (port defaults to 80/443 by scheme)
+ * @returns Target or null if no host and port can be derived
+ */
+export function parseTcpTarget(target: string): ContainerTarget | null {
+  const hostPort = target.match(/^(\[[^\]]+\]|[^\s:/\[\]]+):(\d+)$/);
+  if (hostPort) {
+    const port = parseInt(hostPort[2], 10);
+    return port >= 1 && port <= 65535 ? { host: hostPort[1].replace(/^\[|\]$/g, ''), port } : null;
   }
-  
+
   try {
-    const bookmarksArray = JSON.parse(bookmarksEnv);
-    
-    if (!Array.isArray(bookmarksArray)) {
-      logger.warn('[Utils] BOOKMARKS must be a JSON array');
-      return [];
+    const url = new URL(target);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
     }
-    
-    const processed: ProcessedContainer[] = [];
-    
-    for (const bookmark of bookmarksArray) {
-      if (!bookmark.name || !bookmark.url) {
-        logger.warn('[Utils] Skipping invalid bookmark (missing name or url):', bookmark);
-        continue;
-      }
-      
-      try {
-        const processedBookmark = processBookmark(bookmark);
-        processed.push(processedBookmark);
-      } catch (error) {
-        logger.warn('[Utils] Failed to process bookmark:', bookmark, error);
-      }
+    const port = url.port ? parseInt(url.port, 10) : url.protocol === 'https:' ? 443 : 80;
+    return { host: url.hostname.replace(/^\[|\]$/g, ''), port };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bytes of an IPv4 or IPv6 address (IPv4-mapped IPv6 addresses as IPv4)
+ * @returns Bytes or null if the address is invalid
+ */
+function ipToBytes(ip: string): number[] | null {
+  const address = ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  const version = isIP(address);
+  if (version === 4) {
+    return address.split('.').map(Number);
+  }
+  if (version !== 6) {
+    return null;
+  }
+
+  // Embedded IPv4 tail (e.g. 64:ff9b::192.0.2.1) as two hex groups
+  const hex = address.replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_, a, b, c, d) =>
+    `${((+a << 8) | +b).toString(16)}:${((+c << 8) | +d).toString(16)}`
+  );
+  const [head, tail] = hex.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * Parse an IP address or CIDR range ("10.0.0.5", "172.16.0.0/12", "fd00::/8")
+ * @returns Address bytes and prefix length, or null if invalid
+ */
+export function parseIpRange(range: string): { bytes: number[]; prefix: number } | null {
+  const [address, prefixText, ...rest] = range.trim().split('/');
+  const bytes = ipToBytes(address);
+  if (!bytes || rest.length > 0) {
+    return null;
+  }
+
+  const bits = bytes.length * 8;
+  const prefix = prefixText === undefined ? bits : /^\d+$/.test(prefixText) ? parseInt(prefixText, 10) : NaN;
+  return prefix >= 0 && prefix <= bits ? { bytes, prefix } : null;
+}
+
+/**
+ * Check whether an IP address lies in one of the given addresses or CIDR ranges
+ * Invalid addresses and ranges never match
+ */
+export function isIpInRanges(ip: string, ranges: string[]): boolean {
+  const bytes = ipToBytes(ip);
+  if (!bytes) {
+    return false;
+  }
+
+  return ranges.some(entry => {
+    const range = parseIpRange(entry);
+    if (!range || range.bytes.length !== bytes.length) {
+      return false;
     }
-    
-    if (processed.length > 0) {
-      logger.info(`[Utils] Loaded ${processed.length} bookmark(s)`);
+    for (let bit = 0; bit < range.prefix; bit++) {
+      const mask = 0x80 >> (bit % 8);
+      if ((bytes[bit >> 3] & mask) !== (range.bytes[bit >> 3] & mask)) {
+        return false;
+      }
     }
-    
-    return processed;
-    
-  } catch (error) {
-    logger.error('[Utils] Failed to parse BOOKMARKS environment variable:', error);
-    return [];
+    return true;
+  });
+}
+
+// Pseudo environment of bookmarks (ribbon "bookmark", owner keys "-1/<name>")
+export const BOOKMARK_ENVIRONMENT: DockhandEnvironment = {
+  id: -1,
+  name: 'bookmark',
+  type: 'bookmark',
+  publicIp: '',
+};
+
+/**
+ * Describe a bookmark as a running container so it can be registered as Peekaping monitor
+ * The bookmark URL becomes the custom URL label, which is used as monitor URL
+ */
+export function bookmarkToContainer(entry: BookmarkConfig): { container: DockhandContainer; env: DockhandEnvironment } {
+  const labels: Record<string, string> = {
+    'dockhand-tavern.name': entry.name,
+    'dockhand-tavern.url': entry.url,
+  };
+  if (entry.group) {
+    labels['dockhand-tavern.group'] = entry.group;
   }
+
+  return {
+    container: {
+      id: getBookmarkId(entry),
+      name: entry.name,
+      image: '',
+      state: 'running',
+      status: '',
+      created: 0,
+      ports: [],
+      networks: {},
+      restartCount: 0,
+      mounts: [],
+      labels,
+      command: '',
+      systemContainer: null,
+    },
+    env: BOOKMARK_ENVIRONMENT,
+  };
 }
 
 /**
  * Convert a bookmark entry into a ProcessedContainer
+ * Bookmarks with a health check start as "starting" until the first probe result arrives
  */
-export function processBookmark(entry: { 
-  name: string; 
-  url: string; 
-  icon?: string;
-  group?: string;
-}): ProcessedContainer {
-  // Generate a stable ID from the bookmark data
-  const id = `bookmark-${entry.name}-${entry.url}`;
-  
+export function processBookmark(entry: BookmarkConfig): ProcessedContainer {
   return {
-    id,
+    id: getBookmarkId(entry),
     displayName: entry.name,
     group: entry.group || 'ungrouped',  // Use group or default to ungrouped
     environment: {
-      id: -1,
-      name: 'bookmark',          // Shows as "bookmark" ribbon
+      id: BOOKMARK_ENVIRONMENT.id,
+      name: BOOKMARK_ENVIRONMENT.name, // Shows as "bookmark" ribbon
       publicIp: '',              // Not applicable
     },
     url: entry.url,              // Direct URL from user
     icon: entry.icon,
     iconUrl: resolveIconUrl(entry.icon, entry.name), // Use name for icon fallback
     image: '',                   // Not applicable
+    ...(entry.check && { health: 'starting', status: 'Waiting for first check' }),
+    ...(entry.description && { description: entry.description }),
+    ...(entry.tags && entry.tags.length > 0 && { tags: entry.tags }),
   };
 }
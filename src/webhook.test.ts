@@ -0,0 +1,186 @@
+/**
+ * Unit tests for webhook authentication, payload parsing and rate limiting
+ * Run with: bun test
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import { safeCompare, verifySignature, parseWebhookEvent, resolveClientIp, RateLimiter, WebhookGuard } from './webhook';
+
+const secret = 'hook-secret';
+const body = '{"event":"deploy"}';
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+describe('safeCompare', () => {
+  test('compares strings of any length', () => {
+    expect(safeCompare('abc', 'abc')).toBe(true);
+    expect(safeCompare('abc', 'abd')).toBe(false);
+    expect(safeCompare('abc', 'abcdef')).toBe(false);
+    expect(safeCompare('', '')).toBe(true);
+  });
+});
+
+describe('verifySignature', () => {
+  test('accepts a valid HMAC signature with or without prefix', () => {
+    const prefixed = new Headers({ 'X-Hub-Signature-256': `sha256=${sign(body)}` });
+    const plain = new Headers({ 'X-Tavern-Signature': sign(body).toUpperCase() });
+
+    expect(verifySignature(secret, body, prefixed, null)).toEqual({ ok: true, auth: 'hmac' });
+    expect(verifySignature(secret, body, plain, null)).toEqual({ ok: true, auth: 'hmac' });
+  });
+
+  test('rejects a signature of a different body', () => {
+    const headers = new Headers({ 'X-Tavern-Signature': sign('{}') });
+    const result = verifySignature(secret, body, headers, null);
+
+    expect(result).toEqual({ ok: false, reason: 'invalid signature in x-tavern-signature' });
+  });
+
+  test('a signature header takes precedence over the token', () => {
+    const headers = new Headers({ 'X-Tavern-Signature': 'bogus' });
+    expect(verifySignature(secret, body, headers, secret).ok).toBe(false);
+  });
+
+  test('falls back to the token query parameter', () => {
+    const headers = new Headers();
+
+    expect(verifySignature(secret, '', headers, secret)).toEqual({ ok: true, auth: 'token' });
+    expect(verifySignature(secret, '', headers, 'wrong')).toEqual({ ok: false, reason: 'invalid token' });
+    expect(verifySignature(secret, '', headers, null)).toEqual({ ok: false, reason: 'missing signature or token' });
+  });
+});
+
+describe('parseWebhookEvent', () => {
+  test('parses flat payloads', () => {
+    expect(parseWebhookEvent('{"environmentId": 2, "containerId": "abc123", "event": "start"}')).toEqual({
+      environmentId: 2,
+      containerId: 'abc123',
+      event: 'start',
+    });
+    expect(parseWebhookEvent('{"environment_id": "3", "container_id": "abc123", "action": "die"}')).toEqual({
+      environmentId: 3,
+      containerId: 'abc123',
+      event: 'die',
+    });
+  });
+
+  test('parses nested environment and container objects', () => {
+    const body = JSON.stringify({ event: 'destroy', environment: { id: 1, name: 'prod' }, container: { id: 'abc123' } });
+    expect(parseWebhookEvent(body)).toEqual({ environmentId: 1, containerId: 'abc123', event: 'destroy' });
+  });
+
+  test('returns null for payloads without an environment', () => {
+    expect(parseWebhookEvent('')).toBeNull();
+    expect(parseWebhookEvent('not json')).toBeNull();
+    expect(parseWebhookEvent('[1, 2]')).toBeNull();
+    expect(parseWebhookEvent('{"version": "1.0", "title": "Container started", "type": "info"}')).toBeNull();
+    expect(parseWebhookEvent('{"environmentId": "prod"}')).toBeNull();
+    expect(parseWebhookEvent('{"environmentId": -1}')).toBeNull();
+  });
+});
+
+describe('resolveClientIp', () => {
+  test('takes the entry appended by the proxy, not the ones sent by the client', () => {
+    expect(resolveClientIp('1.2.3.4, 203.0.113.7', '10.0.0.2', true)).toBe('203.0.113.7');
+    expect(resolveClientIp('203.0.113.7', '10.0.0.2', true)).toBe('203.0.113.7');
+  });
+
+  test('uses the peer address without proxy or header', () => {
+    expect(resolveClientIp('1.2.3.4, 203.0.113.7', '10.0.0.2', false)).toBe('10.0.0.2');
+    expect(resolveClientIp(null, '10.0.0.2', true)).toBe('10.0.0.2');
+    expect(resolveClientIp(' ', '10.0.0.2', true)).toBe('10.0.0.2');
+  });
+});
+
+describe('RateLimiter', () => {
+  test('limits requests per IP within the window', () => {
+    const limiter = new RateLimiter(2, 60_000);
+
+    expect(limiter.hit('10.0.0.1', 0).allowed).toBe(true);
+    expect(limiter.hit('10.0.0.1', 1000).allowed).toBe(true);
+    expect(limiter.hit('10.0.0.1', 2000)).toEqual({ allowed: false, retryAfter: 58, firstRejection: true });
+    expect(limiter.hit('10.0.0.1', 3000)).toEqual({ allowed: false, retryAfter: 57, firstRejection: false });
+    expect(limiter.hit('10.0.0.2', 3000).allowed).toBe(true);
+  });
+
+  test('starts a new window after the old one expired', () => {
+    const limiter = new RateLimiter(1, 60_000);
+
+    limiter.hit('10.0.0.1', 0);
+    expect(limiter.hit('10.0.0.1', 30_000).allowed).toBe(false);
+    expect(limiter.hit('10.0.0.1', 60_000).allowed).toBe(true);
+  });
+
+  test('a limit of 0 disables rate limiting', () => {
+    const limiter = new RateLimiter(0);
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.hit('10.0.0.1').allowed).toBe(true);
+    }
+  });
+});
+
+describe('WebhookGuard', () => {
+  const scheduled = { status: 'scheduled', pendingRequests: 1 } as const;
+
+  test('accepts unauthenticated calls without a secret', () => {
+    const guard = new WebhookGuard({ rateLimit: 30, historySize: 50 });
+
+    expect(guard.verify('10.0.0.1', '', new Headers(), null)).toEqual({ ok: true, auth: 'none' });
+    expect(guard.getHistory().authRequired).toBe(false);
+  });
+
+  test('rejects unsigned calls with a secret and counts them', () => {
+    const guard = new WebhookGuard({ secret, rateLimit: 30, historySize: 50 });
+
+    expect(guard.verify('10.0.0.1', body, new Headers(), null)).toEqual({
+      ok: false,
+      status: 401,
+      reason: 'missing signature or token',
+    });
+    expect(guard.getHistory()).toEqual({ authRequired: true, rejected: 1, accepted: [] });
+  });
+
+  test('rate limit applies before authentication', () => {
+    const guard = new WebhookGuard({ secret, rateLimit: 1, historySize: 50 });
+    const headers = new Headers({ 'X-Tavern-Signature': sign(body) });
+
+    expect(guard.verify('10.0.0.1', body, headers, null).ok).toBe(true);
+    const result = guard.verify('10.0.0.1', body, headers, null);
+    expect(result.ok).toBe(false);
+    expect(result.ok === false && result.status).toBe(429);
+    expect(result.ok === false && result.retryAfter).toBeGreaterThan(0);
+  });
+
+  test('keeps the newest accepted calls up to the history size', () => {
+    const guard = new WebhookGuard({ rateLimit: 0, historySize: 2 });
+
+    guard.record('10.0.0.1', 'POST', 'none', scheduled);
+    guard.record('10.0.0.2', 'GET', 'none', scheduled);
+    guard.record('10.0.0.3', 'POST', 'none', { status: 'coalesced', pendingRequests: 2 });
+
+    const { accepted } = guard.getHistory();
+    expect(accepted.map(entry => entry.ip)).toEqual(['10.0.0.3', '10.0.0.2']);
+    expect(accepted[0]).toMatchObject({ method: 'POST', auth: 'none', refresh: 'coalesced' });
+    expect(accepted[0].receivedAt).toBeInstanceOf(Date);
+  });
+
+  test('records the event of targeted calls', () => {
+    const guard = new WebhookGuard({ rateLimit: 0, historySize: 5 });
+
+    guard.record('10.0.0.1', 'POST', 'none', scheduled, { environmentId: 2, containerId: 'abc123', event: 'start' });
+    expect(guard.getHistory().accepted[0]).toMatchObject({ event: 'start', environmentId: 2 });
+  });
+
+  test('shrinks the history when the history size is reduced', () => {
+    const guard = new WebhookGuard({ rateLimit: 0, historySize: 5 });
+    for (let i = 0; i < 5; i++) {
+      guard.record(`10.0.0.${i}`, 'POST', 'none', scheduled);
+    }
+
+    guard.applyConfig({ rateLimit: 0, historySize: 1 });
+    expect(guard.getHistory().accepted.map(entry => entry.ip)).toEqual(['10.0.0.4']);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Webhook Guard
+ * Verifies webhook calls (HMAC signature or token), rate-limits them per client IP,
+ * parses container events from the payload and keeps a history of accepted calls
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import type { WebhookConfig, WebhookEvent, WebhookHistoryEntry, RefreshRequestResult } from './types';
+import { logger } from './logger';
+
+// Headers carrying an HMAC-SHA256 signature of the raw body ("sha256=<hex>" or "<hex>")
+const SIGNATURE_HEADERS = ['x-tavern-signature', 'x-hub-signature-256'];
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export type WebhookVerification =
+  | { ok: true; auth: WebhookHistoryEntry['auth'] }
+  | { ok: false; status: 401 | 429; reason: string; retryAfter?: number };
+
+/**
+ * Compare two secrets in constant time
+ * Both sides are hashed first so neither content nor length leaks through timing
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Check a webhook call against the shared secret
+ * Accepts an HMAC-SHA256 signature of the raw body (X-Tavern-Signature or X-Hub-Signature-256)
+ * or the secret itself as `token` query parameter
+ */
+export function verifySignature(
+  secret: string,
+  rawBody: string,
+  headers: Headers,
+  token: string | null
+): { ok: true; auth: 'hmac' | 'token' } | { ok: false; reason: string } {
+  const signatureHeader = SIGNATURE_HEADERS.find(name => headers.has(name));
+
+  if (signatureHeader) {
+    const signature = headers.get(signatureHeader)!.trim().replace(/^sha256=/i, '').toLowerCase();
+    const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+    return safeCompare(signature, expected)
+      ? { ok: true, auth: 'hmac' }
+      : { ok: false, reason: `invalid signature in ${signatureHeader}` };
+  }
+
+  if (token !== null) {
+    return safeCompare(token, secret)
+      ? { ok: true, auth: 'token' }
+      : { ok: false, reason: 'invalid token' };
+  }
+
+  return { ok: false, reason: 'missing signature or token' };
+}
+
+/**
+ * Parse the container event of a Dockhand webhook payload
+ * Accepts flat (`environmentId`, `containerId`, `event`) and nested
+ * (`environment: { id }`, `container: { id }`) fields in camelCase or snake_case
+ * @returns null if the body is not JSON or names no environment (refresh everything)
+ */
+export function parseWebhookEvent(rawBody: string): WebhookEvent | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return null;
+  }
+  if (!isRecord(payload)) {
+    return null;
+  }
+
+  const environment = isRecord(payload.environment) ? payload.environment : {};
+  const container = isRecord(payload.container) ? payload.container : {};
+
+  const environmentId = toEnvironmentId(
+    payload.environmentId ?? payload.environment_id ?? payload.envId ?? environment.id ?? payload.environment
+  );
+  if (environmentId === null) {
+    return null;
+  }
+
+  const containerId = payload.containerId ?? payload.container_id ?? container.id;
+  const event = payload.event ?? payload.action ?? payload.status;
+
+  return {
+    environmentId,
+    ...(typeof containerId === 'string' && containerId ? { containerId } : {}),
+    ...(typeof event === 'string' && event ? { event } : {}),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Environment IDs are non-negative integers, sent as number or numeric string
+ */
+function toEnvironmentId(value: unknown): number | null {
+  const id = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  return typeof id === 'number' && Number.isInteger(id) && id >= 0 ? id : null;
+}
+
+/**
+ * Client IP of a request
+ * Behind a reverse proxy the IP is taken from the rightmost X-Forwarded-For entry: the proxy
+ * appends the address it received the request from, entries left of it are sent by the client
+ * @param peer Address of the direct peer (the proxy when trustProxy is set)
+ */
+export function resolveClientIp(forwardedFor: string | null, peer: string, trustProxy: boolean): string {
+  if (trustProxy) {
+    const forwarded = forwardedFor?.split(',').pop()?.trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+  return peer;
+}
+
+/**
+ * Fixed-window request counter per client IP
+ */
+export class RateLimiter {
+  private limit: number;
+  private windowMs: number;
+  private windows: Map<string, { count: number; resetAt: number }> = new Map(); // ip → current window
+
+  /**
+   * @param limit Requests allowed per window, 0 disables the limit
+   */
+  constructor(limit: number, windowMs: number = RATE_LIMIT_WINDOW_MS) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Count a request, returns the seconds to wait if the client is over the limit
+   */
+  hit(ip: string, now: number = Date.now()): { allowed: true } | { allowed: false; retryAfter: number; firstRejection: boolean } {
+    if (this.limit <= 0) {
+      return { allowed: true };
+    }
+
+    this.prune(now);
+    const window = this.windows.get(ip) ?? { count: 0, resetAt: now + this.windowMs };
+    window.count++;
+    this.windows.set(ip, window);
+
+    if (window.count > this.limit) {
+      return {
+        allowed: false,
+        retryAfter: Math.ceil((window.resetAt - now) / 1000),
+        firstRejection: window.count === this.limit + 1,
+      };
+    }
+    return { allowed: true };
+  }
+
+  private prune(now: number): void {
+    for (const [ip, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(ip);
+      }
+    }
+  }
+}
+
+export class WebhookGuard {
+  private config: WebhookConfig;
+  private rateLimiter: RateLimiter;
+  private history: WebhookHistoryEntry[] = []; // Accepted calls, newest first
+  private rejectedCount: number = 0;
+
+  constructor(config: WebhookConfig) {
+    this.config = config;
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+  }
+
+  /**
+   * Apply (reloaded) webhook settings, the history is kept
+   */
+  applyConfig(config: WebhookConfig): void {
+    this.config = config;
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+    this.history = this.history.slice(0, config.historySize);
+  }
+
+  /**
+   * Rate-limit and authenticate a webhook call
+   * Rejected calls are logged with the client IP and reason
+   */
+  verify(ip: string, rawBody: string, headers: Headers, token: string | null): WebhookVerification {
+    // Only the first rejected call of a window is logged, so a flood doesn't flood the log too
+    const rate = this.rateLimiter.hit(ip);
+    if (!rate.allowed) {
+      const result = { ok: false, status: 429, reason: 'rate limit exceeded', retryAfter: rate.retryAfter } as const;
+      return this.reject(ip, result, !rate.firstRejection);
+    }
+
+    if (!this.config.secret) {
+      return { ok: true, auth: 'none' };
+    }
+
+    const result = verifySignature(this.config.secret, rawBody, headers, token);
+    return result.ok ? result : this.reject(ip, { ok: false, status: 401, reason: result.reason });
+  }
+
+  /**
+   * Record an accepted call (newest first, limited to historySize entries)
+   */
+  record(
+    ip: string,
+    method: string,
+    auth: WebhookHistoryEntry['auth'],
+    refresh: RefreshRequestResult,
+    event: WebhookEvent | null = null
+  ): void {
+    if (this.config.historySize <= 0) {
+      return;
+    }
+    this.history.unshift({
+      receivedAt: new Date(),
+      ip,
+      method,
+      auth,
+      refresh: refresh.status,
+      ...(event ? { event: event.event, environmentId: event.environmentId } : {}),
+    });
+    this.history.length = Math.min(this.history.length, this.config.historySize);
+  }
+
+  /**
+   * Accepted calls (newest first) and the number of rejected calls since startup
+   */
+  getHistory(): { authRequired: boolean; rejected: number; accepted: WebhookHistoryEntry[] } {
+    return { authRequired: !!this.config.secret, rejected: this.rejectedCount, accepted: this.history };
+  }
+
+  private reject(ip: string, result: Extract<WebhookVerification, { ok: false }>, quiet: boolean = false): WebhookVerification {
+    this.rejectedCount++;
+    if (!quiet) {
+      logger.warn(`[Webhook] Rejected call from ${ip}: ${result.reason}`);
+    }
+    return result;
+  }
+}